@@ -0,0 +1,93 @@
+import { BlockingIndex, createBlockingKeys } from '../utils/blocking';
+import { CompanyDeduplicator } from '../deduplicator';
+import { prepareCompanies, prepareCompany } from '../utils/normalizer';
+import { DEFAULT_CONFIG } from '../config';
+
+describe('BlockingIndex', () => {
+  const cfg = { ...DEFAULT_CONFIG };
+  const companies = [
+    'Ubisoft Montreal',
+    'Ubisoft Montréal Studio',
+    'Ubisot Montral Studio',
+    '0Space',
+    '10Space',
+    'Bolt Technology',
+    'Getir',
+    'Zynga'
+  ];
+
+  it('creates prefix, suffix and signature keys', () => {
+    expect(createBlockingKeys(prepareCompany('Bolt Technology', cfg), cfg)).toEqual(
+      expect.arrayContaining(['p:bol', 's:olt', 'p:tec', 's:ogy', 'f:boltec'])
+    );
+    const unguarded = { ...cfg, degenerateNamePolicy: 'off' as const };
+    expect(createBlockingKeys(prepareCompany('Games Studio', unguarded), unguarded)).toEqual(['e:']);
+  });
+
+  it('only returns names that share a key', () => {
+    const prepared = prepareCompanies(companies, cfg);
+    const index = new BlockingIndex(prepared, cfg);
+    const candidateNames = (i: number) => index.candidatesFor(prepared[i]).map(c => c.raw);
+    expect(candidateNames(0)).toEqual(['Ubisoft Montréal Studio', 'Ubisot Montral Studio']);
+    expect(candidateNames(3)).toEqual(['10Space']);
+    expect(candidateNames(7)).toEqual([]);
+  });
+
+  it('skips blocks larger than blockingMaxBlockSize', () => {
+    const small = { ...cfg, blockingMaxBlockSize: 2 };
+    const prepared = prepareCompanies(['Alpha One', 'Alpha Two', 'Alpha Three'], small);
+    const index = new BlockingIndex(prepared, small);
+    expect(index.candidatesFor(prepared[0])).toEqual([]);
+    expect(index.getStats(0).skippedBlocks).toBeGreaterThan(0);
+  });
+
+  it('finds the same groups as a full comparison while pruning pairs', () => {
+    const blocked = new CompanyDeduplicator(cfg).findDuplicates(companies);
+    const full = new CompanyDeduplicator({ ...cfg, useBlocking: false }).findDuplicates(companies);
+
+    expect(blocked.duplicateGroups).toEqual(full.duplicateGroups);
+    expect(blocked.candidateStats.totalPairs).toBe(28);
+    expect(blocked.candidateStats.prunedPairs).toBeGreaterThan(0);
+    expect(full.candidateStats.prunedPairs).toBe(0);
+  });
+
+  it('keeps short names with a typo together', () => {
+    // one typo in a four-letter word changes both its prefix and its suffix
+    const loose = { ...cfg, highSimilarityThreshold: 0.74, minConfidenceScore: 0.74 };
+    const names = ['Epic', 'Eic', 'Sony', 'Soy', 'Bolt', 'Bot', 'Riot', 'Rito', 'Zynga', 'Zinga', 'Getir', 'Gettir'];
+    const blocked = new CompanyDeduplicator(loose).findDuplicates(names);
+    const full = new CompanyDeduplicator({ ...loose, useBlocking: false }).findDuplicates(names);
+
+    expect(blocked.duplicateGroups).toEqual(full.duplicateGroups);
+    expect(blocked.duplicateGroups.map(g => g.members)).toEqual([
+      ['Bolt', 'Bot'], ['Eic', 'Epic'], ['Getir', 'Gettir'], ['Riot', 'Rito'], ['Sony', 'Soy'], ['Zinga', 'Zynga']
+    ]);
+    expect(blocked.candidateStats.prunedPairs).toBeGreaterThan(0);
+  });
+
+  it('counts each compared pair once', () => {
+    const prepared = prepareCompanies(companies, cfg);
+    const index = new BlockingIndex(prepared, cfg);
+    const candidateCount = prepared.reduce((sum, p) => sum + index.candidatesFor(p).length, 0);
+    const stats = new CompanyDeduplicator(cfg).findDuplicates(companies).candidateStats;
+    expect(stats.candidatePairs).toBe(candidateCount / 2);
+    expect(stats.prunedPairs).toBe(stats.totalPairs - stats.candidatePairs);
+  });
+});
+
+describe('BlockingIndex with the ngram strategy', () => {
+  const cfg = { ...DEFAULT_CONFIG, blockingStrategy: 'ngram' as const, blockingMinSharedNgrams: 3 };
+
+  it('uses character n-grams as keys', () => {
+    expect(createBlockingKeys(prepareCompany('Bolt', cfg), cfg)).toEqual(['g:##b', 'g:#bo', 'g:bol', 'g:olt', 'g:lt#', 'g:t##']);
+  });
+
+  it('requires a minimum number of shared n-grams', () => {
+    const prepared = prepareCompanies(['PlayStation', 'Play Station', 'Playa Resorts', 'Zynga'], cfg);
+    const index = new BlockingIndex(prepared, cfg);
+    expect(index.candidatesFor(prepared[0]).map(c => c.raw)).toEqual(['Play Station', 'Playa Resorts']);
+    expect(index.candidatesFor(prepared[3])).toEqual([]);
+    expect(new BlockingIndex(prepared, { ...cfg, blockingMinSharedNgrams: 6 }).candidatesFor(prepared[0]).map(c => c.raw))
+      .toEqual(['Play Station']);
+  });
+});
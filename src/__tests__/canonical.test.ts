@@ -0,0 +1,40 @@
+import { pickCanonicalName } from '../utils/canonical';
+import { CompanyDeduplicator } from '../deduplicator';
+import { createConfig } from '../config';
+
+describe('pickCanonicalName', () => {
+  const members = ['Bolt Technlgy', 'Bolt Technology Ltd', 'bolt technology'];
+  const frequencies = new Map([['bolt technology', 3], ['Bolt Technology Ltd', 1], ['Bolt Technlgy', 1]]);
+
+  it('picks the most frequent spelling', () => {
+    expect(pickCanonicalName(members, { strategy: 'most_frequent', frequencies })).toBe('bolt technology');
+  });
+
+  it('picks the longest spelling', () => {
+    expect(pickCanonicalName(members, { strategy: 'longest', frequencies })).toBe('Bolt Technology Ltd');
+  });
+
+  it('prefers a spelling with a legal suffix', () => {
+    expect(pickCanonicalName(members, { strategy: 'legal_suffix', frequencies })).toBe('Bolt Technology Ltd');
+  });
+
+  it('only counts legal suffixes of the configured jurisdictions', () => {
+    const options = { strategy: 'legal_suffix' as const, frequencies: new Map([['Siemens', 2]]) };
+    expect(pickCanonicalName(['Siemens', 'Siemens AG'], options)).toBe('Siemens AG');
+    expect(pickCanonicalName(['Siemens', 'Siemens AG'], { ...options, legalFormJurisdictions: ['us'] })).toBe('Siemens');
+  });
+
+  it('prefers a spelling from the reference list and falls back otherwise', () => {
+    expect(pickCanonicalName(members, { strategy: 'reference', referenceList: ['Bolt Technlgy'] })).toBe('Bolt Technlgy');
+    expect(pickCanonicalName(members, { strategy: 'reference', referenceList: ['Zynga'], frequencies })).toBe('bolt technology');
+  });
+});
+
+describe('DuplicateGroup.canonical', () => {
+  it('uses input frequencies from findDuplicates', () => {
+    const deduper = new CompanyDeduplicator(createConfig('balanced'));
+    const result = deduper.findDuplicates(['Bolt Technlgy', 'Bolt Technology', 'Bolt Technology', 'Bolt Technlgy ', 'Bolt Technology']);
+    expect(result.duplicateGroups[0].original).toBe('Bolt Technlgy');
+    expect(result.duplicateGroups[0].canonical).toBe('Bolt Technology');
+  });
+});
@@ -0,0 +1,188 @@
+import { CompanyDeduplicator } from '../deduplicator';
+import { clusterMatches } from '../utils/clustering';
+import { DEFAULT_CONFIG } from '../config';
+import { MatchLayer } from '../types';
+import { edge } from './fixtures';
+
+describe('clusterMatches', () => {
+  it('merges chains transitively', () => {
+    const clusters = clusterMatches([edge('A', 'B'), edge('B', 'C'), edge('X', 'Y')]);
+    expect(clusters.map(c => c.members)).toEqual([['A', 'B', 'C'], ['X', 'Y']]);
+  });
+
+  it('breaks fuzzy chains with average and complete linkage', () => {
+    const chain = [edge('Ubisoft', 'Ubisoft Montreal', 0.8), edge('Ubisoft', 'Ubisoft Paris', 0.8)];
+    expect(clusterMatches(chain).map(c => c.members)).toEqual([['Ubisoft', 'Ubisoft Montreal', 'Ubisoft Paris']]);
+    expect(clusterMatches(chain, { linkage: 'average', threshold: 0.5 }).map(c => c.members)).toEqual([['Ubisoft', 'Ubisoft Montreal']]);
+    expect(clusterMatches(chain, { linkage: 'complete', threshold: 0.5 }).map(c => c.members)).toEqual([['Ubisoft', 'Ubisoft Montreal']]);
+  });
+
+  it('uses name similarity for min_similarity linkage', () => {
+    const chain = [edge('A', 'B'), edge('B', 'C')];
+    const similarity = (a: string, b: string) => ([a, b].sort().join('') === 'AC' ? 0.2 : 0.9);
+    const clusters = clusterMatches(chain, { linkage: 'min_similarity', threshold: 0.5, similarity });
+    expect(clusters[0].members).toHaveLength(2);
+  });
+
+  it('reports lower cohesion for chained clusters', () => {
+    const [chained] = clusterMatches([edge('A', 'B', 0.9), edge('B', 'C', 0.9)]);
+    const [clique] = clusterMatches([edge('A', 'B', 0.9), edge('B', 'C', 0.9), edge('A', 'C', 0.9)]);
+    expect(chained.cohesion).toBe(0.6);
+    expect(clique.cohesion).toBe(0.9);
+  });
+
+  it('keeps one edge per pair', () => {
+    const clusters = clusterMatches([edge('A', 'B', 0.8), edge('B', 'A', 0.9)]);
+    expect(clusters[0].edges).toHaveLength(1);
+    expect(clusters[0].edges[0].confidence).toBe(0.9);
+  });
+});
+
+describe('CompanyDeduplicator.findDuplicates', () => {
+  const companies = [
+    'Ubisoft Montreal',
+    'Ubisoft Montréal Studio',
+    'Ubisot Montral Studio',
+    'Montreal Ubisoft',
+    'Bolt Technology',
+    'Bolt Technlgy',
+    'Zynga'
+  ];
+
+  it('places every name in exactly one group', () => {
+    const result = new CompanyDeduplicator(DEFAULT_CONFIG).findDuplicates(companies);
+    const members = result.duplicateGroups.flatMap(g => g.members);
+    expect(new Set(members).size).toBe(members.length);
+    expect(result.duplicateGroups.map(g => g.members)).toEqual([
+      ['Bolt Technlgy', 'Bolt Technology'],
+      ['Montreal Ubisoft', 'Ubisoft Montreal', 'Ubisoft Montréal Studio', 'Ubisot Montral Studio']
+    ]);
+  });
+
+  it('gives the same groups regardless of input order', () => {
+    const deduper = new CompanyDeduplicator(DEFAULT_CONFIG);
+    // line numbers follow the input, everything else must not
+    const withoutSources = (input: string[]) =>
+      deduper.findDuplicates(input).duplicateGroups.map(({ sources, duplicates, ...g }) => ({
+        ...g,
+        duplicates: duplicates.map(({ originalSource, candidateSource, ...d }) => d)
+      }));
+    expect(withoutSources([...companies].reverse())).toEqual(withoutSources(companies));
+  });
+});
+
+describe('occurrence tracking', () => {
+  it('keeps counts and line numbers of every spelling', () => {
+    const result = new CompanyDeduplicator(DEFAULT_CONFIG).findDuplicates([
+      { name: 'Bolt Technology', line: 2 },
+      { name: 'Bolt Technlgy', line: 5 },
+      { name: ' Bolt Technology ', line: 9 }
+    ]);
+    const [group] = result.duplicateGroups;
+    expect(group.sources['Bolt Technology']).toEqual({ occurrences: 2, lines: [2, 9] });
+    expect(group.sources['Bolt Technlgy']).toEqual({ occurrences: 1, lines: [5] });
+    expect(group.totalOccurrences).toBe(3);
+    expect(group.duplicates[0].candidateSource).toEqual({ occurrences: 2, lines: [2, 9] });
+  });
+
+  it('numbers plain string input by position', () => {
+    const [group] = new CompanyDeduplicator(DEFAULT_CONFIG).findDuplicates(['Bolt Technology', '', 'Bolt Technlgy']).duplicateGroups;
+    expect(group.sources['Bolt Technlgy'].lines).toEqual([3]);
+  });
+});
+
+describe('degenerate names', () => {
+  it('lists them separately and keeps unmatchable ones out of the groups', () => {
+    const result = new CompanyDeduplicator(DEFAULT_CONFIG).findDuplicates(['Games Studio', 'Digital Entertainment', '1', '1+1 Studios']);
+    expect(result.duplicateGroups).toHaveLength(0);
+    expect(result.degenerateNames).toEqual([
+      { name: '1', normalized: '1', handling: 'unmatchable' },
+      { name: 'Digital Entertainment', normalized: 'digital entertainment', handling: 'fallback' },
+      { name: 'Games Studio', normalized: 'games studio', handling: 'fallback' }
+    ]);
+  });
+});
+
+describe('geographic office variants', () => {
+  const offices = ['Ubisoft Montreal', 'Ubisoft Paris', 'Zynga'];
+
+  it('reports offices of one company separately from duplicates', () => {
+    const result = new CompanyDeduplicator(DEFAULT_CONFIG).findDuplicates(offices);
+    expect(result.duplicateGroups).toHaveLength(0);
+    expect(result.siblingOffices).toHaveLength(1);
+    expect(result.siblingOffices[0].parent).toBe('ubisoft');
+    expect(result.siblingOffices[0].offices).toEqual(['Ubisoft Montreal', 'Ubisoft Paris']);
+    expect(result.siblingOffices[0].matches[0].method).toBe('geographic_variant');
+  });
+
+  it('keeps the company itself out of its offices', () => {
+    const withParent = ['Ubisoft', ...offices];
+    // the offices only meet through the company, which average linkage would not merge
+    const config = { ...DEFAULT_CONFIG, clusterLinkage: 'single' as const };
+    const result = new CompanyDeduplicator(config).findDuplicates(withParent);
+    expect(result.siblingOffices.map(o => o.offices)).toEqual([['Ubisoft Montreal', 'Ubisoft Paris']]);
+    expect(result.duplicateGroups.map(g => g.members)).toEqual([['Ubisoft', 'Ubisoft Montreal', 'Ubisoft Paris']]);
+
+    const tree = new CompanyDeduplicator({ ...config, hierarchyMode: true }).findDuplicates(withParent);
+    expect(tree.duplicateGroups[0].hierarchy).toEqual([
+      { name: 'Ubisoft', aliases: [], children: [
+        { name: 'Ubisoft Montreal', aliases: [], children: [] },
+        { name: 'Ubisoft Paris', aliases: [], children: [] }
+      ] }
+    ]);
+  });
+
+  it('merges or ignores offices depending on the mode', () => {
+    const merged = new CompanyDeduplicator({ ...DEFAULT_CONFIG, geographicMode: 'merge' }).findDuplicates(offices);
+    expect(merged.duplicateGroups.map(g => g.members)).toEqual([['Ubisoft Montreal', 'Ubisoft Paris']]);
+    expect(merged.siblingOffices).toHaveLength(0);
+
+    const ignored = new CompanyDeduplicator({ ...DEFAULT_CONFIG, geographicMode: 'ignore' }).findDuplicates(offices);
+    expect(ignored.duplicateGroups).toHaveLength(0);
+    expect(ignored.siblingOffices).toHaveLength(0);
+  });
+
+  it('uses the configured term list', () => {
+    const config = { ...DEFAULT_CONFIG, geographicTerms: ['helsinki', 'espoo'] };
+    const result = new CompanyDeduplicator(config).findDuplicates(['Rovio Helsinki', 'Rovio Espoo', ...offices]);
+    expect(result.siblingOffices.map(o => o.parent)).toEqual(['rovio']);
+  });
+});
+
+describe('layer registry', () => {
+  const sameFirstWord: MatchLayer = {
+    name: 'same_first_word',
+    score: (a, b) => (a.normalized.split(' ')[0] === b.normalized.split(' ')[0] ? 0.8 : 0),
+    threshold: 0.5
+  };
+
+  it('runs custom layers and reports their name as the method', () => {
+    const deduper = new CompanyDeduplicator(DEFAULT_CONFIG);
+    deduper.addLayer(sameFirstWord);
+    const [match] = deduper.findDuplicatesForCompany('Zynga Mobile', ['Zynga Poker']);
+    expect(match.method).toBe('same_first_word');
+    expect(match.confidence).toBe(0.8);
+  });
+
+  it('disables, reorders and removes layers', () => {
+    const deduper = new CompanyDeduplicator(DEFAULT_CONFIG);
+    deduper.addLayer(sameFirstWord, 0);
+    expect(deduper.getLayers()[0].name).toBe('same_first_word');
+
+    deduper.moveLayer('same_first_word', 99);
+    expect(deduper.getLayers().map(l => l.name).pop()).toBe('same_first_word');
+
+    deduper.setLayerEnabled('same_first_word', false);
+    expect(deduper.findDuplicatesForCompany('Zynga Mobile', ['Zynga Poker'])).toHaveLength(0);
+
+    deduper.removeLayer('exact_after_normalization');
+    expect(deduper.getLayers().map(l => l.name)).not.toContain('exact_after_normalization');
+  });
+
+  it('rejects duplicate names and unknown layers', () => {
+    const deduper = new CompanyDeduplicator(DEFAULT_CONFIG);
+    expect(() => deduper.addLayer({ ...sameFirstWord, name: 'token_match' })).toThrow('already exists');
+    expect(() => deduper.addLayer({ ...sameFirstWord, threshold: 2 })).toThrow('threshold');
+    expect(() => deduper.removeLayer('nope')).toThrow('Unknown layer');
+  });
+});
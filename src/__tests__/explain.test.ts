@@ -0,0 +1,64 @@
+import { explainPair } from '../utils/explain';
+import { CompanyDeduplicator } from '../deduplicator';
+import { DEFAULT_CONFIG } from '../config';
+import { MatchLayer } from '../types';
+
+describe('explainPair', () => {
+  it('reports every layer against its threshold for a match', () => {
+    const e = explainPair('Bolt Technology', 'Bolt Technlgy', DEFAULT_CONFIG);
+    expect(e.matched).toBe(true);
+    expect(e.method).toBe('jaro_winkler');
+    expect(e.layers.high_similarity).toEqual({ score: 0.867, threshold: 0.85, passed: true });
+    expect(e.layers.token_match.passed).toBe(false);
+    expect(e.rank).toBe(1);
+  });
+
+  it('names the threshold that rejected a pair', () => {
+    expect(explainPair('Helsinki Bolt Mobility', 'Bolt Mobility', DEFAULT_CONFIG).reason).toBe('no layer reached its threshold');
+
+    const strict = { ...DEFAULT_CONFIG, minConfidenceScore: 0.98 };
+    const e = explainPair('Bolt Technology', 'Bolt Technlgy', strict);
+    expect(e.matched).toBe(false);
+    expect(e.rank).toBeNull();
+    expect(e.reason).toBe('confidence 96.0% is below minConfidenceScore 98.0%');
+  });
+
+  it('only calls two offices siblings', () => {
+    expect(explainPair('Ubisoft Montreal', 'Ubisoft Paris', DEFAULT_CONFIG).reason).toMatch(/reported as sibling offices/);
+    expect(explainPair('Ubisoft', 'Ubisoft Paris', DEFAULT_CONFIG).reason).toBe('matched by geographic_variant at 85.0%');
+  });
+
+  it('reports vetoes by negative evidence', () => {
+    const e = explainPair('FIFA 22', 'FIFA 23', DEFAULT_CONFIG);
+    expect(e.conflicts).toEqual(['numeric_conflict']);
+    expect(e.reason).toBe('vetoed by numeric_conflict');
+  });
+
+  it('applies the maxResultsPerCompany cutoff against the other candidates', () => {
+    const config = { ...DEFAULT_CONFIG, maxResultsPerCompany: 1 };
+    const e = explainPair('Bolt Technology', 'Bolt Technlgy', config, { candidates: ['Bolt Technology Inc'] });
+    expect(e.rank).toBe(2);
+    expect(e.matched).toBe(false);
+    expect(e.reason).toBe('ranked 2, beyond maxResultsPerCompany 1');
+  });
+
+  it('ranks the pair among the blocked candidates only', () => {
+    // a layer that would put every name, related or not, ahead of the pair
+    const everything: MatchLayer = { name: 'everything', score: (_, c) => (c.raw === 'Zynga' ? 1 : 0.9), threshold: 0 };
+    const config = { ...DEFAULT_CONFIG, maxResultsPerCompany: 1 };
+    const e = explainPair('Bolt Technology', 'Bolt Technlgy', config, { candidates: ['Zynga'], layers: [everything] });
+    expect(e.rank).toBe(1);
+    expect(e.matched).toBe(true);
+
+    const unblocked = explainPair('Bolt Technology', 'Bolt Technlgy', { ...config, useBlocking: false }, { candidates: ['Zynga'], layers: [everything] });
+    expect(unblocked.rank).toBe(2);
+  });
+
+  it('uses the layers of a deduplicator', () => {
+    const deduper = new CompanyDeduplicator(DEFAULT_CONFIG);
+    deduper.setLayerEnabled('jaro_winkler', false);
+    const e = deduper.explainPair('Bolt Technology', 'Bolt Technlgy');
+    expect(e.layers.jaro_winkler).toBeUndefined();
+    expect(e.method).toBe('high_similarity');
+  });
+});
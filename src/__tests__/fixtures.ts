@@ -0,0 +1,14 @@
+import { CompanyMatch } from '../types';
+
+/**
+ * A match between two names for tests that feed matches to clustering or
+ * hub detection directly
+ */
+export const edge = (original: string, candidate: string, confidence = 0.9): CompanyMatch => ({
+  original,
+  candidate,
+  confidence,
+  method: 'high_similarity',
+  normalizedOriginal: original.toLowerCase(),
+  normalizedCandidate: candidate.toLowerCase()
+});
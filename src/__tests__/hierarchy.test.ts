@@ -0,0 +1,47 @@
+import { buildHierarchy, isContainedIn, isParentOf } from '../utils/hierarchy';
+import { CompanyDeduplicator } from '../deduplicator';
+import { findAllMatches } from '../utils/matcher';
+import { CONFIG_PRESETS } from '../config';
+
+describe('hierarchy', () => {
+  const config = { ...CONFIG_PRESETS.aggressive, hierarchyMode: true };
+
+  it('only counts whole-token containment', () => {
+    expect(isContainedIn('santa monica', 'sony santa monica')).toBe(true);
+    expect(isContainedIn('bolt', 'boltzmann')).toBe(false);
+    expect(isContainedIn('bolt', 'bolt')).toBe(false);
+  });
+
+  it('records the direction of containment matches', () => {
+    const [match] = findAllMatches('Sony Santa Monica', ['Santa Monica'], config);
+    expect(match.relation).toEqual({ parent: 'Sony Santa Monica', child: 'Santa Monica' });
+    expect(findAllMatches('Ubisoft', ['Ubisoft Montreal'], config)[0].relation).toEqual({ parent: 'Ubisoft', child: 'Ubisoft Montreal' });
+    expect(findAllMatches('Sony Santa Monica', ['Santa Monica'], CONFIG_PRESETS.aggressive)[0].relation).toBeUndefined();
+  });
+
+  it('nests members under the most specific name they contain', () => {
+    const names: Record<string, string> = { A: 'naughty dog', B: 'naughty dog', C: 'naughty dog santa monica', D: 'naughty dog santa monica east' };
+    expect(buildHierarchy(['D', 'C', 'B', 'A'], n => names[n])).toEqual([
+      { name: 'A', aliases: ['B'], children: [{ name: 'C', aliases: [], children: [{ name: 'D', aliases: [], children: [] }] }] }
+    ]);
+  });
+
+  it('puts names under the names they start with and over the names they end with', () => {
+    const names: Record<string, string> = { A: 'sony', B: 'sony santa monica', C: 'santa monica', D: 'monica' };
+    expect(isParentOf('sony', 'sony santa monica')).toBe(true);
+    expect(isParentOf('sony santa monica', 'santa monica')).toBe(true);
+    expect(isParentOf('santa monica', 'sony santa monica')).toBe(false);
+    expect(buildHierarchy(['A', 'B', 'C', 'D'], n => names[n])).toEqual([
+      { name: 'A', aliases: [], children: [
+        { name: 'B', aliases: [], children: [{ name: 'C', aliases: [], children: [{ name: 'D', aliases: [], children: [] }] }] }
+      ] }
+    ]);
+  });
+
+  it('adds a tree to every group', () => {
+    const result = new CompanyDeduplicator(config).findDuplicates(['Sony Santa Monica', 'Santa Monica', 'Sony Santa Monica Studio']);
+    expect(result.duplicateGroups[0].hierarchy).toEqual([
+      { name: 'Sony Santa Monica', aliases: ['Sony Santa Monica Studio'], children: [{ name: 'Santa Monica', aliases: [], children: [] }] }
+    ]);
+  });
+});
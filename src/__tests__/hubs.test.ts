@@ -0,0 +1,48 @@
+import { findHubs, matchDegrees } from '../utils/hubs';
+import { CompanyDeduplicator } from '../deduplicator';
+import { DEFAULT_CONFIG } from '../config';
+import { MatchLayer } from '../types';
+import { edge } from './fixtures';
+
+describe('findHubs', () => {
+  it('counts each pair once', () => {
+    const degrees = matchDegrees([edge('A', 'B'), edge('B', 'A'), edge('A', 'C')]);
+    expect(degrees.get('A')).toBe(2);
+    expect(degrees.get('B')).toBe(1);
+  });
+
+  it('flags outliers above the minimum degree only', () => {
+    const names = ['H', ...'abcdefghijkl'.split('')];
+    const degrees = matchDegrees(names.slice(1).map(n => edge('H', n)));
+    expect(findHubs(names, degrees, { minDegree: 5, stdDevFactor: 3 })).toEqual([{ name: 'H', degree: 12 }]);
+    expect(findHubs(names, degrees, { minDegree: 13, stdDevFactor: 3 })).toEqual([]);
+  });
+});
+
+describe('hub detection in findDuplicates', () => {
+  // a generic entry that "matches" every other name
+  const hubLayer: MatchLayer = {
+    name: 'matches_hub',
+    score: (a, b) => (a.raw === 'Generic Holdings' || b.raw === 'Generic Holdings' ? 0.9 : 0),
+    threshold: 0.5
+  };
+  const names = ['Generic Holdings', 'Zynga', 'Rovio', 'Supercell', 'Getir', 'Unity', 'Valve', 'Riot', 'Epic', 'Sega', 'Atari', 'Konami', 'Capcom'];
+
+  const run = (hubDetection: 'report' | 'exclude') => {
+    const deduper = new CompanyDeduplicator({ ...DEFAULT_CONFIG, useBlocking: false, hubDetection });
+    deduper.addLayer(hubLayer);
+    return deduper.findDuplicates(names);
+  };
+
+  it('reports hubs with the matches maxResultsPerCompany dropped', () => {
+    const result = run('report');
+    expect(result.hubs).toEqual([{ name: 'Generic Holdings', degree: 12, truncated: 2, excluded: false }]);
+    expect(result.duplicateGroups).toHaveLength(1);
+  });
+
+  it('keeps excluded hubs out of clustering', () => {
+    const result = run('exclude');
+    expect(result.hubs[0].excluded).toBe(true);
+    expect(result.duplicateGroups).toHaveLength(0);
+  });
+});
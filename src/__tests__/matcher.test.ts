@@ -1,9 +1,15 @@
-import { findAllMatches } from '../utils/matcher';
+import { findAllMatches, calculateJaroWinkler, calculateTokenJaroWinkler, calculateSimilarity, calculateNgramSimilarity, calculateCompositeScore } from '../utils/matcher';
 import { CONFIG_PRESETS, DEFAULT_CONFIG } from '../config';
+import { prepareCompanies, prepareCompany, extractNgrams, extractNumericTokens } from '../utils/normalizer';
+import { buildTokenIdf, calculateWeightedTokenOverlap } from '../utils/idf';
 
 describe('findAllMatches', () => {
-  const config = { ...DEFAULT_CONFIG };
-  const agressivePreset = { ...DEFAULT_CONFIG, ...CONFIG_PRESETS.aggressive };
+  // Jaro-Winkler rates a typo in a long word above Levenshtein, and n-gram
+  // similarity scores substrings above the original layers; keep both out of
+  // the way so these cases exercise those.
+  // Descriptors are stripped without a penalty, as in the original normalizer.
+  const config = { ...DEFAULT_CONFIG, jaroWinklerThreshold: 1, ngramThreshold: 1, industryDescriptorMode: 'strip' as const };
+  const agressivePreset = { ...DEFAULT_CONFIG, ...CONFIG_PRESETS.aggressive, ngramThreshold: 1 };
 
   it('detects exact match after normalisation (accent + suffix)', () => {
     const original = 'Ubisoft Montreal';
@@ -49,4 +55,214 @@ describe('findAllMatches', () => {
     // Should be filtered because 0.5 < conservative thresholds (0.88 / 0.85 / 0.85)
     expect(matches).toHaveLength(0);
   });
-}); 
\ No newline at end of file
+}); 
+describe('non-Latin names', () => {
+  it('does not match names of other scripts to each other', () => {
+    const matches = findAllMatches('Яндекс', ['Газпром', 'שטראוס', '任天堂', 'Яндекс!'], DEFAULT_CONFIG);
+    expect(matches.map(m => m.candidate)).toEqual(['Яндекс!']);
+  });
+
+  it('matches full-width spellings of a Latin name', () => {
+    expect(findAllMatches('ＳＯＮＹ', ['Sony'], DEFAULT_CONFIG)[0].method).toBe('exact_after_normalization');
+  });
+});
+
+describe('Jaro-Winkler layer', () => {
+  it('scores prefix agreement higher than Levenshtein', () => {
+    expect(calculateJaroWinkler('ubisoft', 'ubysoft')).toBeGreaterThan(calculateSimilarity('ubisoft', 'ubysoft'));
+    expect(calculateJaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(calculateJaroWinkler('abc', 'xyz')).toBe(0);
+  });
+
+  it('reports jaro_winkler matches with the default preset', () => {
+    const matches = findAllMatches('Ubisoft', ['Ubysoft'], DEFAULT_CONFIG);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].method).toBe('jaro_winkler');
+    expect(matches[0].confidence).toBeGreaterThanOrEqual(DEFAULT_CONFIG.jaroWinklerThreshold);
+  });
+
+  it('compares word by word and needs short words to agree', () => {
+    expect(calculateTokenJaroWinkler('deutsche bank', 'deutsche bahn')).toBeLessThan(0.9);
+    expect(calculateTokenJaroWinkler('rockstar north', 'rockstar norway')).toBeLessThan(0.8);
+    expect(calculateTokenJaroWinkler('bolt', 'bolt tech')).toBe(0);
+    expect(calculateTokenJaroWinkler('sony', 'soy')).toBe(0);
+    expect(calculateTokenJaroWinkler('ubisot montral', 'ubisoft montreal')).toBeCloseTo(0.971, 3);
+
+    const unrelated = [['Deutsche Bank', 'Deutsche Bahn'], ['Rockstar North', 'Rockstar Nordic'], ['Ubisoft Montreal', 'Ubisoft Montpellier'], ['Sony', 'Soy']];
+    for (const [a, b] of unrelated) expect(findAllMatches(a, [b], DEFAULT_CONFIG)).toHaveLength(0);
+  });
+});
+
+describe('ngram_similarity layer', () => {
+  it('compares character n-gram profiles with cosine or Dice', () => {
+    const a = extractNgrams('play station', 3, true);
+    const b = extractNgrams('playstation', 3, true);
+    expect(calculateNgramSimilarity(a, b, 'cosine')).toBe(1);
+    expect(calculateNgramSimilarity(extractNgrams('abc', 2, false), extractNgrams('abd', 2, false), 'dice')).toBe(0.5);
+  });
+
+  it('matches joined and split spellings', () => {
+    const matches = findAllMatches('Play Station Network', ['PlayStation Network'], DEFAULT_CONFIG);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].method).toBe('ngram_similarity');
+  });
+});
+
+describe('findAllMatches with prepared companies', () => {
+  it('gives the same matches for raw and prepared inputs', () => {
+    const candidates = ['Ubisoft Montréal Studio', 'Montreal Ubisoft', 'Zynga'];
+    const prepared = prepareCompanies(candidates, DEFAULT_CONFIG);
+    expect(findAllMatches(prepareCompany('Ubisoft Montreal', DEFAULT_CONFIG), prepared, DEFAULT_CONFIG))
+      .toEqual(findAllMatches('Ubisoft Montreal', candidates, DEFAULT_CONFIG));
+  });
+});
+
+describe('acronym_match layer', () => {
+  it('matches acronyms against the initials of multi-word names', () => {
+    const matches = findAllMatches('IBM', ['International Business Machines', 'Intel'], DEFAULT_CONFIG);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].method).toBe('acronym_match');
+    expect(matches[0].confidence).toBe(0.9);
+  });
+
+  it('skips stopwords and suffixes with lower confidence', () => {
+    const [boa] = findAllMatches('BOA', ['Bank of America'], DEFAULT_CONFIG);
+    const [ba] = findAllMatches('BA', ['Bank of America'], DEFAULT_CONFIG);
+    const [ea] = findAllMatches('Electronic Arts', ['EA'], DEFAULT_CONFIG);
+    const [eaInc] = findAllMatches('Electronic Arts Inc', ['EA'], CONFIG_PRESETS.aggressive);
+    expect(boa.confidence).toBe(0.9);
+    expect(ba.confidence).toBe(0.765);
+    expect(ea.confidence).toBe(0.81);
+    expect(eaInc.confidence).toBe(0.72);
+  });
+
+  it('ignores names that are not all caps', () => {
+    expect(findAllMatches('Ibm', ['International Business Machines'], DEFAULT_CONFIG)).toHaveLength(0);
+  });
+});
+
+describe('weighted_token_match layer', () => {
+  // "works" appears in almost every name, "ubisoft" in two
+  const fillers = Array.from({ length: 30 }, (_, i) => `Brand${String.fromCharCode(97 + (i % 26))}${i} Works`);
+  const corpus = ['Ubisoft Works', 'Ubisoft', ...fillers];
+  const prepared = prepareCompanies(corpus, DEFAULT_CONFIG);
+  const idf = buildTokenIdf(prepared);
+
+  it('weights rare tokens above common ones', () => {
+    const [ubisoftWorks, ubisoft, alpha, beta] = prepared;
+    expect(calculateWeightedTokenOverlap(alpha.tokens, beta.tokens, idf)).toBeLessThan(1 / 3);
+    expect(calculateWeightedTokenOverlap(ubisoftWorks.tokens, ubisoft.tokens, idf)).toBeGreaterThan(0.5);
+  });
+
+  it('matches on distinctive shared tokens using corpus statistics', () => {
+    const matches = findAllMatches(prepared[0], prepared, DEFAULT_CONFIG, { idf });
+    expect(matches.map(m => m.candidate)).toEqual(['Ubisoft']);
+    expect(matches[0].method).toBe('weighted_token_match');
+  });
+});
+
+describe('composite scoring', () => {
+  it('combines layers that each fall short of their threshold', () => {
+    const config = { ...DEFAULT_CONFIG, minConfidenceScore: 0.5 };
+    expect(findAllMatches('Helsinki Bolt Mobility', ['Bolt Mobility'], config)).toHaveLength(0);
+
+    const [match] = findAllMatches('Helsinki Bolt Mobility', ['Bolt Mobility'], { ...config, scoringMode: 'weighted' });
+    expect(match.method).toBe('composite');
+    expect(match.confidence).toBe(0.518);
+    expect(match.layerScores?.token_match).toBe(0.667);
+  });
+
+  it('applies layer weights and the logistic model', () => {
+    const scores = { high_similarity: 0.8, token_match: 0.5, custom: 1 };
+    const weights = { high_similarity: 2, token_match: 1, custom: 0 };
+    const weighted = { ...DEFAULT_CONFIG, scoringMode: 'weighted' as const, layerWeights: weights };
+    const logistic = { ...weighted, scoringMode: 'logistic' as const, logisticBias: -2.1 };
+    expect(calculateCompositeScore(scores, weighted)).toBeCloseTo(0.7);
+    expect(calculateCompositeScore(scores, logistic)).toBeCloseTo(0.5);
+  });
+});
+
+describe('match explanations', () => {
+  it('breaks a match down by layer and normalization', () => {
+    const [match] = findAllMatches('Bolt Technology', ['Bolt Technlgy Group!'], { ...DEFAULT_CONFIG, explainMatches: true });
+    expect(match.method).toBe('jaro_winkler');
+    expect(match.explanation?.layers.high_similarity).toEqual({ score: 0.867, threshold: 0.85, passed: true });
+    expect(match.explanation?.layers.token_match.passed).toBe(false);
+    expect(match.explanation?.candidate.steps.map(s => s.step)).toEqual(['lowercase', 'remove_punctuation', 'remove_descriptors']);
+    expect(match.explanation?.candidate.normalized).toBe('bolt technlgy');
+  });
+
+  it('reports layer weights instead of thresholds in composite modes', () => {
+    const config = { ...DEFAULT_CONFIG, scoringMode: 'weighted' as const, minConfidenceScore: 0.5, explainMatches: true };
+    const [match] = findAllMatches('Bolt Technology', ['Bolt Technlgy Group!'], config);
+    expect(match.explanation?.layers.high_similarity).toEqual({ score: 0.867, weight: 1 });
+    expect(match.explanation?.layers.phonetic_match.weight).toBe(0.5);
+  });
+
+  it('is omitted unless requested', () => {
+    const [match] = findAllMatches('Bolt Technology', ['Bolt Technlgy Group!'], DEFAULT_CONFIG);
+    expect(match.explanation).toBeUndefined();
+  });
+});
+
+describe('numeric conflicts', () => {
+  it('reads digits and roman numerals as integers', () => {
+    expect(extractNumericTokens('FIFA 22')).toEqual(new Set(['22']));
+    expect(extractNumericTokens('Studio II')).toEqual(new Set(['2']));
+    expect(extractNumericTokens('Mix & Match I')).toEqual(new Set());
+    expect(extractNumericTokens('Mix V X Labs')).toEqual(new Set());
+    expect(extractNumericTokens('Acme v.o.s.')).toEqual(new Set());
+    expect(extractNumericTokens('Studio IV')).toEqual(new Set(['4']));
+    expect(extractNumericTokens('FIFA ٢٢')).toEqual(new Set(['22']));
+    expect(extractNumericTokens('Studio ०७')).toEqual(new Set(['7']));
+  });
+
+  it('vetoes names that differ only in a number', () => {
+    expect(findAllMatches('FIFA 22', ['FIFA 23'], DEFAULT_CONFIG)).toHaveLength(0);
+    expect(findAllMatches('FIFA ٢٢', ['FIFA ٢٣'], DEFAULT_CONFIG)).toHaveLength(0);
+    expect(findAllMatches('Rovio 1', ['Rovio 2'], DEFAULT_CONFIG)).toHaveLength(0);
+    expect(findAllMatches('Rovio 2', ['Rovio 2 Ltd'], DEFAULT_CONFIG)).toHaveLength(1);
+    expect(findAllMatches('Rovio Mobile 2', ['Rovio Mobile'], DEFAULT_CONFIG)).toHaveLength(1);
+  });
+
+  it('penalizes instead of vetoing when configured', () => {
+    const config = { ...DEFAULT_CONFIG, numericConflictMode: 'penalize' as const, minConfidenceScore: 0 };
+    const [penalized] = findAllMatches('Rovio 1', ['Rovio 2'], config);
+    const [unchecked] = findAllMatches('Rovio 1', ['Rovio 2'], { ...config, numericConflictMode: 'off' });
+    expect(penalized.confidence).toBe(Number((unchecked.confidence * 0.8).toFixed(3)));
+  });
+});
+
+describe('industry descriptors', () => {
+  it('penalizes names whose descriptors differ by default', () => {
+    const [match] = findAllMatches('Acme Games', ['Acme Software'], { ...DEFAULT_CONFIG, explainMatches: true });
+    expect(match.normalizedCandidate).toBe('acme');
+    expect(match.confidence).toBe(0.85);
+    expect(match.explanation?.conflicts).toEqual(['descriptor_conflict']);
+    expect(findAllMatches('Acme', ['Acme Games'], DEFAULT_CONFIG)[0].confidence).toBe(0.85);
+  });
+
+  it('leaves matching descriptors alone', () => {
+    expect(findAllMatches('Acme Games', ['Acme Games Ltd'], DEFAULT_CONFIG)[0].confidence).toBe(1);
+  });
+
+  it('drops them without a penalty in strip mode', () => {
+    const strip = { ...DEFAULT_CONFIG, industryDescriptorMode: 'strip' as const };
+    expect(findAllMatches('Acme Games', ['Acme Software'], strip)[0].confidence).toBe(1);
+  });
+});
+
+describe('degenerate names', () => {
+  it('falls back to the unstripped form of names made of suffix words', () => {
+    const prepared = prepareCompany('Games Studio', DEFAULT_CONFIG);
+    expect(prepared.normalized).toBe('games studio');
+    expect(prepared.degenerate).toBe('fallback');
+    expect(findAllMatches('Games Studio', ['Digital Entertainment'], DEFAULT_CONFIG)).toHaveLength(0);
+  });
+
+  it('never matches names that stay too short', () => {
+    expect(prepareCompany('1', DEFAULT_CONFIG).degenerate).toBe('unmatchable');
+    expect(findAllMatches('1', ['1+1 Studios'], DEFAULT_CONFIG)).toHaveLength(0);
+    expect(findAllMatches('1', ['1+1 Studios'], { ...DEFAULT_CONFIG, degenerateNamePolicy: 'off' })).toHaveLength(1);
+  });
+});
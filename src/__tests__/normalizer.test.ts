@@ -1,5 +1,5 @@
-import { normalizeCompanyName, calculateTokenOverlap } from '../utils/normalizer';
-import { DEFAULT_CONFIG } from '../config';
+import { normalizeCompanyName, normalizeCompanyNameWithTrace, calculateTokenOverlap, isLikelyGeographicVariant, hasLegalSuffix } from '../utils/normalizer';
+import { DEFAULT_CONFIG, validateConfig } from '../config';
 
 describe('Normalizer', () => {
   const cfg = { ...DEFAULT_CONFIG };
@@ -15,4 +15,87 @@ describe('Normalizer', () => {
     const b = normalizeCompanyName('Ubisoft Montreal', cfg);
     expect(calculateTokenOverlap(a, b)).toBe(1);
   });
-}); 
\ No newline at end of file
+
+  it('traces the steps that changed a name', () => {
+    const trace = normalizeCompanyNameWithTrace('Ubisoft Montréal Studio!', cfg);
+    expect(trace.steps).toEqual([
+      { step: 'lowercase', result: 'ubisoft montréal studio!' },
+      { step: 'remove_accents', result: 'ubisoft montreal studio!' },
+      { step: 'remove_punctuation', result: 'ubisoft montreal studio' },
+      { step: 'remove_descriptors', result: 'ubisoft montreal' }
+    ]);
+    expect(trace.normalized).toBe(normalizeCompanyName(trace.input, cfg));
+  });
+
+  it('keeps letters and digits of every script', () => {
+    const names = ['Яндекс', 'Ελληνικά Πετρέλαια', '任天堂', 'バンダイナムコ', '넥슨', 'أرامكو', 'שטראוס', 'Sony ソニー'];
+    expect(names.map(n => normalizeCompanyName(n, cfg))).toEqual([
+      'яндекс', 'ελληνικα πετρελαια', '任天堂', 'バンダイナムコ', '넥슨', 'أرامكو', 'שטראוס', 'sony ソニー'
+    ]);
+  });
+
+  it('folds full-width and half-width forms with NFKC', () => {
+    expect(normalizeCompanyName('ｿﾆｰ', cfg)).toBe('ソニー');
+    expect(normalizeCompanyName('Acme™ Robotics', cfg)).toBe('acme robotics');
+    const trace = normalizeCompanyNameWithTrace('ＳＯＮＹ Ｇａｍｅｓ', cfg);
+    expect(trace.steps.map(s => s.step)).toEqual(['normalize_unicode', 'lowercase', 'remove_descriptors']);
+    expect(trace.normalized).toBe('sony');
+  });
+
+  it('folds letters that accent removal cannot take apart', () => {
+    const names = ['Straße', 'Ærø Bank', 'Œuvre', 'Łódź', 'Þór'];
+    expect(names.map(n => normalizeCompanyName(n, cfg))).toEqual(['strasse', 'aero bank', 'oeuvre', 'lodz', 'thor']);
+  });
+
+  it('folds Turkish dotted and dotless i to "i" only without a locale', () => {
+    const tr = { ...cfg, caseFoldLocale: 'tr' };
+    expect(normalizeCompanyName('İSTANBUL', cfg)).toBe('istanbul');
+    expect(normalizeCompanyName('ISTANBUL', cfg)).toBe('istanbul');
+    expect(normalizeCompanyName('Işık', cfg)).toBe('isik');
+    expect(normalizeCompanyName('İSTANBUL', tr)).toBe('istanbul');
+    expect(normalizeCompanyName('ISTANBUL', tr)).toBe('ıstanbul');
+    expect(normalizeCompanyNameWithTrace('ISTANBUL', tr).steps[0]).toEqual({ step: 'lowercase', result: 'ıstanbul' });
+    expect(validateConfig({ ...cfg, caseFoldLocale: 'not a locale' })).toHaveLength(1);
+  });
+
+  it('detects names that differ only in geographic terms', () => {
+    expect(isLikelyGeographicVariant('ubisoft montreal', 'ubisoft paris')).toBe(true);
+    expect(isLikelyGeographicVariant('ubisoft', 'ubisoft paris')).toBe(true);
+    expect(isLikelyGeographicVariant('paris', 'london')).toBe(false);
+    expect(isLikelyGeographicVariant('ubisoft montreal', 'ubisoft montreal')).toBe(false);
+  });
+
+  it('strips international legal forms from the end of names', () => {
+    const names = ['Siemens AG', 'Renault S.A.', 'Sony K.K.', 'Nokia Oyj', 'Acme S.à r.l.', 'Atlassian Pty Ltd', 'Comarch Sp. z o.o.'];
+    expect(names.map(n => normalizeCompanyName(n, cfg))).toEqual(['siemens', 'renault', 'sony', 'nokia', 'acme', 'atlassian', 'comarch']);
+    expect(normalizeCompanyName('AB InBev', cfg)).toBe('ab inbev');
+    expect(hasLegalSuffix('Bosch GmbH & Co. KG')).toBe(true);
+  });
+
+  it('keeps word-like legal forms unless they are written upper-case', () => {
+    expect(normalizeCompanyName('Tell Me As', cfg)).toBe('tell me as');
+    expect(normalizeCompanyName('Casa Sa', cfg)).toBe('casa sa');
+    expect(normalizeCompanyName('Equinor AS', cfg)).toBe('equinor');
+    expect(normalizeCompanyName('Volvo AB Ltd', cfg)).toBe('volvo');
+    expect(hasLegalSuffix('Tell Me As')).toBe(false);
+
+    const withoutNumbers = { ...cfg, removeNumbers: true };
+    expect(normalizeCompanyName('Acme AS 2', withoutNumbers)).toBe('acme');
+    expect(normalizeCompanyName('Tell Me As 2', withoutNumbers)).toBe('tell me as');
+  });
+
+  it('only strips legal forms of the configured jurisdictions', () => {
+    const usOnly = { ...cfg, legalFormJurisdictions: ['us' as const] };
+    expect(normalizeCompanyName('Siemens AG', usOnly)).toBe('siemens ag');
+    expect(normalizeCompanyName('Siemens AG', { ...usOnly, legalFormJurisdictions: ['de' as const] })).toBe('siemens');
+  });
+
+  it('strips industry descriptors only from the end, after legal forms', () => {
+    expect(normalizeCompanyName('Digital Extremes', cfg)).toBe('digital extremes');
+    expect(normalizeCompanyName('Extremes Software', cfg)).toBe('extremes');
+    expect(normalizeCompanyName('Ubisoft Studios Ltd.', cfg)).toBe('ubisoft');
+    expect(normalizeCompanyName('Ubisoft Studios Ltd.', { ...cfg, industryDescriptorMode: 'keep' })).toBe('ubisoft studios');
+    expect(normalizeCompanyName('Ubisoft Studios Ltd.', { ...cfg, removeSuffixes: false })).toBe('ubisoft studios ltd');
+    expect(normalizeCompanyName('Acme Robotics', { ...cfg, industryDescriptors: ['robotics'] })).toBe('acme');
+  });
+});
@@ -0,0 +1,52 @@
+import { soundex, metaphone, encodePhonetic } from '../utils/phonetic';
+import { findAllMatches } from '../utils/matcher';
+import { DEFAULT_CONFIG, createConfig } from '../config';
+import { CompanyDeduplicator } from '../deduplicator';
+
+describe('phonetic encodings', () => {
+  it('computes American Soundex codes', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Ubisoft')).toBe(soundex('Ubysoft'));
+  });
+
+  it('maps sound-alike spellings to the same Metaphone code', () => {
+    expect(metaphone('Kwality')).toBe(metaphone('Quality'));
+    expect(metaphone('Ubysoft')).toBe(metaphone('Ubisoft'));
+    expect(metaphone('Fone')).toBe(metaphone('Phone'));
+    expect(metaphone('Knight')).toBe('NT');
+  });
+
+  it('keeps numeric tokens as they are', () => {
+    expect(encodePhonetic('22', 'metaphone')).toBe('22');
+  });
+});
+
+describe('phonetic_match layer', () => {
+  it('matches names typed the way they sound', () => {
+    const matches = findAllMatches('Kwality Foods', ['Quality Foods', 'Qualcomm'], DEFAULT_CONFIG);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].candidate).toBe('Quality Foods');
+    expect(matches[0].method).toBe('phonetic_match');
+  });
+
+  it('lets longer tokens differ more in spelling', () => {
+    for (const preset of ['balanced', 'aggressive'] as const) {
+      const matches = findAllMatches('Kwality', ['Quality'], createConfig(preset));
+      expect(matches).toHaveLength(1);
+      expect(matches[0].method).toBe('phonetic_match');
+    }
+    expect(findAllMatches('Kwality', ['Quality'], { ...DEFAULT_CONFIG, phoneticMinSimilarity: 0.95 })).toHaveLength(0);
+  });
+
+  it('needs close spellings, not just shared consonants', () => {
+    const lookalikes = ['Nike', 'Nokia', 'Apple', 'Apollo', 'Sega', 'Saga', 'Riot', 'Rad', 'Mattel', 'Metal'];
+    for (const preset of ['conservative', 'balanced', 'aggressive'] as const) {
+      expect(new CompanyDeduplicator(createConfig(preset)).findDuplicates(lookalikes).duplicateGroups).toHaveLength(0);
+    }
+  });
+
+  it('is off in the conservative preset', () => {
+    expect(findAllMatches('Kwality Foods', ['Quality Foods'], createConfig('conservative'))).toHaveLength(0);
+  });
+});
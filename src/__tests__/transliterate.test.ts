@@ -0,0 +1,38 @@
+import { transliterate } from '../utils/transliterate';
+import { normalizeCompanyName } from '../utils/normalizer';
+import { findAllMatches } from '../utils/matcher';
+import { DEFAULT_CONFIG } from '../config';
+
+describe('transliterate', () => {
+  it('converts Cyrillic, Greek and kana to Latin letters', () => {
+    expect(transliterate('яндекс')).toBe('yandex');
+    expect(transliterate('κωτσόβολος')).toBe('kotsovolos');
+    expect(transliterate('トヨタ')).toBe('toyota');
+    expect(transliterate('しょうがくかん')).toBe('shougakukan');
+  });
+
+  it('handles small kana, doubled consonants and long vowels', () => {
+    expect(transliterate('ファミマ')).toBe('famima');
+    expect(transliterate('ニッポン')).toBe('nippon');
+    expect(transliterate('ソニー')).toBe('soni');
+  });
+
+  it('leaves Latin letters and kanji alone', () => {
+    expect(transliterate('sony 任天堂')).toBe('sony 任天堂');
+  });
+});
+
+describe('transliterate config', () => {
+  const config = { ...DEFAULT_CONFIG, transliterate: true };
+
+  it('is off by default', () => {
+    expect(normalizeCompanyName('Яндекс', DEFAULT_CONFIG)).toBe('яндекс');
+    expect(normalizeCompanyName('Яндекс', config)).toBe('yandex');
+  });
+
+  it('lets names in different scripts match', () => {
+    expect(findAllMatches('Яндекс', ['Yandex'], config)[0].method).toBe('exact_after_normalization');
+    expect(findAllMatches('ソニー', ['Sony'], config)[0].method).toBe('phonetic_match');
+    expect(findAllMatches('Яндекс', ['Газпром'], config)).toHaveLength(0);
+  });
+});
@@ -7,28 +7,48 @@
  */
 
 import { CompanyDeduplicator } from './deduplicator';
-import { readCompanyNamesFromFile, writeResultsToFile } from './utils/fileReader';
+import { readCompanyNamesFromFile, readCompanyRecordsFromFile, writeResultsToFile } from './utils/fileReader';
 import { createConfig, describeConfig } from './config';
-import { ConfigPreset, OutputFormat } from './types';
+import { ConfigPreset, OutputFormat, CanonicalStrategy, SourceInfo, BlockingStrategy, ScoringMode, MatchExplanation, NormalizationTrace, PairExplanation } from './types';
 
 interface ParsedArgs {
+  command: 'dedupe' | 'explain';
   file: string;
+  names: string[];                  // The two names to explain
+  candidatesFile?: string;
   preset: ConfigPreset;
   minSim?: number;
   minConf?: number;
   format: OutputFormat;
   out?: string;
   verbose: boolean;
+  explain: boolean;
+  excludeHubs: boolean;
+  hierarchy: boolean;
+  transliterate: boolean;
+  blocking: boolean;
+  blockingStrategy?: BlockingStrategy;
+  canonical?: CanonicalStrategy;
+  scoring?: ScoringMode;
+  locale?: string;
+  referenceFile?: string;
   help: boolean;
 }
 
 function parseArgs(argv: string[]): ParsedArgs {
   const args = argv.slice(2); // skip node + script
   const out: ParsedArgs = {
+    command: 'dedupe',
     file: '',
+    names: [],
     preset: 'balanced',
     format: 'text',
     verbose: false,
+    explain: false,
+    excludeHubs: false,
+    hierarchy: false,
+    transliterate: false,
+    blocking: true,
     help: false
   } as ParsedArgs;
 
@@ -64,24 +84,102 @@ function parseArgs(argv: string[]): ParsedArgs {
       case '--verbose':
         out.verbose = true;
         break;
+      case '--explain':
+        out.explain = true;
+        break;
+      case '--canonical':
+        out.canonical = pop() as CanonicalStrategy;
+        break;
+      case '--reference':
+        out.referenceFile = pop();
+        break;
+      case '--scoring':
+        out.scoring = pop() as ScoringMode;
+        break;
+      case '--locale':
+        out.locale = pop();
+        break;
+      case '--candidates':
+        out.candidatesFile = pop();
+        break;
+      case '--exclude-hubs':
+        out.excludeHubs = true;
+        break;
+      case '--hierarchy':
+        out.hierarchy = true;
+        break;
+      case '--transliterate':
+        out.transliterate = true;
+        break;
+      case '--no-blocking':
+        out.blocking = false;
+        break;
+      case '--blocking-strategy':
+        out.blockingStrategy = pop() as BlockingStrategy;
+        break;
       default:
         if (arg.startsWith('-')) throw new Error(`Unknown flag: ${arg}`);
-        if (!out.file) out.file = arg;
+        if (out.command === 'explain') out.names.push(arg);
+        else if (!out.file && arg === 'explain') out.command = 'explain';
+        else if (!out.file) out.file = arg;
         else throw new Error('Multiple input files specified');
     }
   }
+  if (out.command === 'explain' && out.names.length !== 2) throw new Error('explain needs exactly two names');
   return out;
 }
 
 function showHelp(): void {
-  console.log(`Company Deduplicator – CLI Guide\n\nUsage: company-deduplicate <file> [options]\n\nOptions:\n  --preset <name>            conservative | balanced | aggressive  (default balanced)\n  --min-similarity <float>   override highSimilarityThreshold (0-1)\n  --min-confidence <float>   override minConfidenceScore (0-1)\n  --format <fmt>             text | json | csv  (default text)\n  -o, --output <file>        save results to file instead of stdout\n  -v, --verbose              extra logging\n  -h, --help                 show this message\n`);
+  console.log(`Company Deduplicator – CLI Guide\n\nUsage: company-deduplicate <file> [options]\n       company-deduplicate explain "<name A>" "<name B>" [--candidates <file>] [options]\n\nOptions:\n  --preset <name>            conservative | balanced | aggressive  (default balanced)\n  --min-similarity <float>   override highSimilarityThreshold (0-1)\n  --min-confidence <float>   override minConfidenceScore (0-1)\n  --format <fmt>             text | json | csv  (default text)\n  -o, --output <file>        save results to file instead of stdout\n  --canonical <strategy>     most_frequent | longest | legal_suffix | reference\n  --reference <file>         known-good spellings (one per line), implies --canonical reference\n  --scoring <mode>           best | weighted | logistic  (default best)\n  --candidates <file>        (explain) rank the pair against this list of names\n  --exclude-hubs             keep names matching abnormally many others out of the groups\n  --hierarchy                add a parent/child tree of each group (JSON output)\n  --transliterate            compare Cyrillic, Greek and kana names in Latin letters\n  --locale <tag>             lowercase with the rules of this locale (e.g. tr)\n  --no-blocking              compare every pair (disables candidate blocking)\n  --blocking-strategy <name> keys | ngram  (default keys)\n  --explain                  show each match's layer scores and normalization steps\n  -v, --verbose              extra logging (to stderr)\n  -h, --help                 show this message\n`);
+}
+
+/** "×2, lines 4, 17" – where a spelling occurred in the input */
+function describeSource(info: SourceInfo): string {
+  return `×${info.occurrences}, line${info.lines.length > 1 ? 's' : ''} ${info.lines.join(', ')}`;
+}
+
+/** '"1+1 Studios" -> "1 1" (remove_punctuation, remove_descriptors)' */
+function describeTrace(trace: NormalizationTrace): string {
+  const steps = trace.steps.map(s => s.step).join(', ') || 'unchanged';
+  return `"${trace.input}" -> "${trace.normalized}" (${steps})`;
+}
+
+/** Indented lines breaking a match down by layer and normalization */
+function describeExplanation(explanation: MatchExplanation): string {
+  const layers = Object.entries(explanation.layers).map(
+    ([name, l]) => `${name} ${(l.score*100).toFixed(1)}%` +
+      (l.threshold === undefined ? ` ×${l.weight}` : `/${(l.threshold*100).toFixed(0)}%${l.passed ? ' ✓' : ''}`)
+  );
+  const conflicts = explanation.conflicts.length ? `       conflicts: ${explanation.conflicts.join(', ')}\n` : '';
+  return `       ${describeTrace(explanation.original)}\n       ${describeTrace(explanation.candidate)}\n       ${layers.join(', ')}\n${conflicts}`;
+}
+
+/** Report of the `explain` command: layer table, cutoffs and decision */
+function describePairExplanation(e: PairExplanation): string {
+  const width = Math.max(...Object.keys(e.layers).map(name => name.length));
+  const layers = Object.entries(e.layers).map(
+    ([name, l]) => `  ${name.padEnd(width)}  ${(l.score*100).toFixed(1).padStart(5)}%  ` +
+      (l.threshold === undefined ? `×${l.weight}` : `${l.passed ? '≥' : '<'} ${(l.threshold*100).toFixed(0)}%${l.passed ? '  ✓' : ''}`)
+  );
+  const rank = e.rank === null ? 'not ranked' : `rank ${e.rank} of max ${e.maxResultsPerCompany}`;
+  return [
+    describeTrace(e.original),
+    describeTrace(e.candidate),
+    '',
+    `Layers (${e.scoringMode} scoring):`,
+    ...layers,
+    '',
+    `Compared: ${e.compared ? 'yes' : 'no (no shared blocking key)'}`,
+    `Conflicts: ${e.conflicts.length ? e.conflicts.join(', ') : 'none'}`,
+    `Confidence: ${(e.confidence*100).toFixed(1)}%${e.method ? ` (${e.method})` : ''}, minConfidence ${(e.minConfidenceScore*100).toFixed(0)}%, ${rank}`,
+    `Decision: ${e.matched ? 'MATCH' : 'NO MATCH'} – ${e.reason}`
+  ].join('\n');
 }
 
 /** Entry point  */
 function main(): void {
   let args: ParsedArgs;
   try {
-    console.log('\nprocess.argv: ', process.argv);
     args = parseArgs(process.argv);
   } catch (err) {
     console.error('Argument error:', (err as Error).message);
@@ -90,30 +188,52 @@ function main(): void {
     return;
   }
 
-  console.log('\nparsed args (configs): ', args);
-
-  if (args.help || !args.file) {
+  if (args.help || (!args.file && args.command === 'dedupe')) {
     showHelp();
     return;
   }
 
-  const companies = readCompanyNamesFromFile(args.file);
-  console.log('\ncompanies: ', companies);
-  if (args.verbose) console.log(`Loaded ${companies.length} companies`);
-
   // Build configuration
   const overrides: any = {};
   if (args.minSim !== undefined) overrides.highSimilarityThreshold = args.minSim;
   if (args.minConf !== undefined) overrides.minConfidenceScore = args.minConf;
+  if (!args.blocking) overrides.useBlocking = false;
+  if (args.blockingStrategy) overrides.blockingStrategy = args.blockingStrategy;
+  // JSON is read by tools, so it always carries the explanation; text only on request
+  if (args.explain || args.format === 'json') overrides.explainMatches = true;
+  if (args.excludeHubs) overrides.hubDetection = 'exclude';
+  if (args.hierarchy) overrides.hierarchyMode = true;
+  if (args.transliterate) overrides.transliterate = true;
+  if (args.scoring) overrides.scoringMode = args.scoring;
+  if (args.locale) overrides.caseFoldLocale = args.locale;
+  if (args.canonical) overrides.canonicalStrategy = args.canonical;
+  if (args.referenceFile) {
+    overrides.canonicalReferenceList = readCompanyNamesFromFile(args.referenceFile);
+    overrides.canonicalStrategy = args.canonical ?? 'reference';
+  }
   const config = createConfig(args.preset, overrides);
 
-  if (args.verbose) console.log('\n' + describeConfig(config) + '\n');
+  if (args.verbose) console.error('\n' + describeConfig(config) + '\n');
+
+  if (args.command === 'explain') {
+    const candidates = args.candidatesFile ? readCompanyNamesFromFile(args.candidatesFile) : [];
+    const explanation = new CompanyDeduplicator(config).explainPair(args.names[0], args.names[1], candidates);
+    const output = args.format === 'json' ? JSON.stringify(explanation, null, 2) : describePairExplanation(explanation);
+    if (args.out) writeResultsToFile(args.out, output);
+    else console.log(output);
+    return;
+  }
+
+  const companies = readCompanyRecordsFromFile(args.file);
+  if (args.verbose) console.error(`Loaded ${companies.length} companies`);
 
   const deduplicatorEngine = new CompanyDeduplicator(config);
   const result = deduplicatorEngine.findDuplicates(companies);
 
   if (args.verbose) {
-    console.log(`Found ${result.duplicateGroups.length} duplicate groups in ${result.processingTimeMs}ms\n`);
+    const stats = result.candidateStats;
+    console.error(`Compared ${stats.candidatePairs} of ${stats.totalPairs} pairs (${stats.prunedPairs} pruned by blocking)`);
+    console.error(`Found ${result.duplicateGroups.length} duplicate groups in ${result.processingTimeMs}ms\n`);
   }
 
   // Convert result to chosen format
@@ -123,10 +243,12 @@ function main(): void {
       output = JSON.stringify(result, null, 2);
       break;
     case 'csv': {
-      const lines: string[] = ['Original,Duplicate,Confidence'];
+      const lines: string[] = ['Original,Canonical,Duplicate,Confidence,Method,OriginalOccurrences,OriginalLines,DuplicateOccurrences,DuplicateLines'];
       result.duplicateGroups.forEach(g => {
+        const orig = g.sources[g.original];
         g.duplicates.forEach(d => {
-          lines.push(`"${g.original}","${d.candidate}",${d.confidence}`);
+          const dup = g.sources[d.candidate];
+          lines.push(`"${g.original}","${g.canonical}","${d.candidate}",${d.confidence},"${d.method}",${orig.occurrences},"${orig.lines.join(';')}",${dup.occurrences},"${dup.lines.join(';')}"`);
         });
       });
       output = lines.join('\n');
@@ -134,17 +256,30 @@ function main(): void {
     }
     default: // text
       result.duplicateGroups.forEach(g => {
-        output += `\n${g.original}\n`;
+        output += `\n${g.original}  ${describeSource(g.sources[g.original])}  [canonical: ${g.canonical}, cohesion ${(g.cohesion*100).toFixed(1)}%]\n`;
         g.duplicates.forEach(d => {
-          output += `  -> ${d.candidate}  (${(d.confidence*100).toFixed(1)}%)\n`;
+          output += `  -> ${d.candidate}  (${(d.confidence*100).toFixed(1)}%, ${d.method})  ${describeSource(g.sources[d.candidate])}\n`;
+          if (d.explanation) output += describeExplanation(d.explanation);
         });
       });
+      if (result.siblingOffices.length) output += '\nSibling offices (same company, different locations):\n';
+      result.siblingOffices.forEach(o => {
+        output += `  ${o.parent}: ${o.offices.join(' | ')}\n`;
+      });
+      if (result.degenerateNames.length) output += '\nNames with too little information:\n';
+      result.degenerateNames.forEach(d => {
+        output += `  ${d.name}  (${d.handling === 'fallback' ? `matched as "${d.normalized}"` : 'not matched'})\n`;
+      });
+      if (result.hubs.length) output += '\nHubs (names matching abnormally many others):\n';
+      result.hubs.forEach(h => {
+        output += `  ${h.name}  (${h.degree} matches${h.truncated ? `, ${h.truncated} beyond maxResultsPerCompany` : ''}${h.excluded ? ', excluded from groups' : ''})\n`;
+      });
   }
 
   if (args.out) {
     writeResultsToFile(args.out, output);
     if (args.verbose) {
-      console.log(`Results written to ${args.out}`);
+      console.error(`Results written to ${args.out}`);
     }
   } else {
     
@@ -2,38 +2,213 @@
  * Configuration presets and helpers
  */
 
-import { DeduplicationConfig, ConfigPreset } from './types';
+import {
+  DeduplicationConfig,
+  ConfigPreset,
+  ClusterLinkage,
+  CanonicalStrategy,
+  PhoneticAlgorithm,
+  NgramMetric,
+  BlockingStrategy,
+  ScoringMode,
+  NumericConflictMode,
+  GeographicMode,
+  DegenerateNamePolicy,
+  HubDetection,
+  IndustryDescriptorMode
+} from './types';
+import { DEFAULT_GEOGRAPHIC_TERMS, DEFAULT_INDUSTRY_DESCRIPTORS } from './utils/normalizer';
+import { LEGAL_FORM_JURISDICTIONS } from './utils/legalForms';
+
+const CLUSTER_LINKAGES: ClusterLinkage[] = ['single', 'average', 'complete', 'min_similarity'];
+const NGRAM_METRICS: NgramMetric[] = ['cosine', 'dice'];
+const BLOCKING_STRATEGIES: BlockingStrategy[] = ['keys', 'ngram'];
+const SCORING_MODES: ScoringMode[] = ['best', 'weighted', 'logistic'];
+const DEGENERATE_NAME_POLICIES: DegenerateNamePolicy[] = ['off', 'fallback', 'unmatchable'];
+const NUMERIC_CONFLICT_MODES: NumericConflictMode[] = ['off', 'penalize', 'veto'];
+const GEOGRAPHIC_MODES: GeographicMode[] = ['ignore', 'merge', 'report_separately'];
+const INDUSTRY_DESCRIPTOR_MODES: IndustryDescriptorMode[] = ['strip', 'penalize', 'keep'];
+const HUB_DETECTIONS: HubDetection[] = ['off', 'report', 'exclude'];
+const PHONETIC_ALGORITHMS: PhoneticAlgorithm[] = ['soundex', 'metaphone'];
+const CANONICAL_STRATEGIES: CanonicalStrategy[] = ['most_frequent', 'longest', 'legal_suffix', 'reference'];
+
+/**
+ * Layer weights for the combined scoring modes. Exact matches already score
+ * 1 on the similarity layers and acronyms score 0 everywhere else, so both
+ * stay out of the mix by default.
+ */
+export const DEFAULT_LAYER_WEIGHTS: Record<string, number> = {
+  exact_after_normalization: 0,
+  high_similarity: 1,
+  jaro_winkler: 1,
+  token_match: 1,
+  weighted_token_match: 1,
+  phonetic_match: 0.5,
+  acronym_match: 0,
+  geographic_variant: 0,
+  ngram_similarity: 1,
+  partial_match: 0.5
+};
 
 export const CONFIG_PRESETS: Record<ConfigPreset, DeduplicationConfig> = {
   conservative: {
     highSimilarityThreshold: 0.92,
+    jaroWinklerThreshold: 0.95,
     tokenMatchThreshold: 0.88,
+    weightedTokenMatchThreshold: 0.85,
+    phoneticMatchThreshold: 1,
     partialMatchThreshold: 0.85,
+    ngramThreshold: 0.9,
+    ngramSize: 3,
+    ngramPadding: true,
+    ngramMetric: 'cosine',
     removeSuffixes: true,
+    legalFormJurisdictions: LEGAL_FORM_JURISDICTIONS,
+    industryDescriptorMode: 'penalize',
+    industryDescriptors: DEFAULT_INDUSTRY_DESCRIPTORS,
+    industryDescriptorPenalty: 0.15,
+    caseFoldLocale: null,
     handleAccents: true,
+    transliterate: false,
     removeNumbers: false,
+    phoneticAlgorithm: 'metaphone',
+    phoneticMatching: false,
+    phoneticMinSimilarity: 0.86,
+    acronymMatching: false,
+    acronymSkipStopwords: true,
+    acronymSkipSuffixes: true,
+    scoringMode: 'best',
+    layerWeights: DEFAULT_LAYER_WEIGHTS,
+    logisticBias: -4,
+    degenerateNamePolicy: 'fallback',
+    minNameLength: 2,
+    minNameTokens: 1,
+    numericConflictMode: 'veto',
+    numericConflictPenalty: 0.2,
+    geographicMode: 'report_separately',
+    geographicTerms: DEFAULT_GEOGRAPHIC_TERMS,
+    hierarchyMode: false,
+    hubDetection: 'report',
+    hubMinDegree: 5,
+    hubStdDevFactor: 3,
+    useBlocking: true,
+    blockingKeyLength: 3,
+    blockingMaxBlockSize: 1000,
+    blockingStrategy: 'keys',
+    blockingMinSharedNgrams: 2,
+    clusterLinkage: 'average',
+    linkageThreshold: 0.7,
+    canonicalStrategy: 'most_frequent',
+    canonicalReferenceList: [],
     minConfidenceScore: 0.85,
-    maxResultsPerCompany: 10
+    maxResultsPerCompany: 10,
+    explainMatches: false
   },
   balanced: {
     highSimilarityThreshold: 0.85,
+    jaroWinklerThreshold: 0.92,
     tokenMatchThreshold: 0.80,
+    weightedTokenMatchThreshold: 0.75,
+    phoneticMatchThreshold: 0.8,
     partialMatchThreshold: 0.70,
+    ngramThreshold: 0.8,
+    ngramSize: 3,
+    ngramPadding: true,
+    ngramMetric: 'cosine',
     removeSuffixes: true,
+    legalFormJurisdictions: LEGAL_FORM_JURISDICTIONS,
+    industryDescriptorMode: 'penalize',
+    industryDescriptors: DEFAULT_INDUSTRY_DESCRIPTORS,
+    industryDescriptorPenalty: 0.15,
+    caseFoldLocale: null,
     handleAccents: true,
+    transliterate: false,
     removeNumbers: false,
+    phoneticAlgorithm: 'metaphone',
+    phoneticMatching: true,
+    phoneticMinSimilarity: 0.86,
+    acronymMatching: true,
+    acronymSkipStopwords: true,
+    acronymSkipSuffixes: true,
+    scoringMode: 'best',
+    layerWeights: DEFAULT_LAYER_WEIGHTS,
+    logisticBias: -4,
+    degenerateNamePolicy: 'fallback',
+    minNameLength: 2,
+    minNameTokens: 1,
+    numericConflictMode: 'veto',
+    numericConflictPenalty: 0.2,
+    geographicMode: 'report_separately',
+    geographicTerms: DEFAULT_GEOGRAPHIC_TERMS,
+    hierarchyMode: false,
+    hubDetection: 'report',
+    hubMinDegree: 5,
+    hubStdDevFactor: 3,
+    useBlocking: true,
+    blockingKeyLength: 3,
+    blockingMaxBlockSize: 1000,
+    blockingStrategy: 'keys',
+    blockingMinSharedNgrams: 2,
+    clusterLinkage: 'average',
+    linkageThreshold: 0.5,
+    canonicalStrategy: 'most_frequent',
+    canonicalReferenceList: [],
     minConfidenceScore: 0.75,
-    maxResultsPerCompany: 10
+    maxResultsPerCompany: 10,
+    explainMatches: false
   },
   aggressive: {
     highSimilarityThreshold: 0.78,
+    jaroWinklerThreshold: 0.88,
     tokenMatchThreshold: 0.70,
+    weightedTokenMatchThreshold: 0.65,
+    phoneticMatchThreshold: 0.67,
     partialMatchThreshold: 0.60,
+    ngramThreshold: 0.7,
+    ngramSize: 3,
+    ngramPadding: true,
+    ngramMetric: 'cosine',
     removeSuffixes: true,
+    legalFormJurisdictions: LEGAL_FORM_JURISDICTIONS,
+    industryDescriptorMode: 'strip',
+    industryDescriptors: DEFAULT_INDUSTRY_DESCRIPTORS,
+    industryDescriptorPenalty: 0.15,
+    caseFoldLocale: null,
     handleAccents: true,
+    transliterate: false,
     removeNumbers: false,
+    phoneticAlgorithm: 'metaphone',
+    phoneticMatching: true,
+    phoneticMinSimilarity: 0.86,
+    acronymMatching: true,
+    acronymSkipStopwords: true,
+    acronymSkipSuffixes: true,
+    scoringMode: 'best',
+    layerWeights: DEFAULT_LAYER_WEIGHTS,
+    logisticBias: -4,
+    degenerateNamePolicy: 'fallback',
+    minNameLength: 2,
+    minNameTokens: 1,
+    numericConflictMode: 'penalize',
+    numericConflictPenalty: 0.2,
+    geographicMode: 'merge',
+    geographicTerms: DEFAULT_GEOGRAPHIC_TERMS,
+    hierarchyMode: false,
+    hubDetection: 'report',
+    hubMinDegree: 5,
+    hubStdDevFactor: 3,
+    useBlocking: true,
+    blockingKeyLength: 3,
+    blockingMaxBlockSize: 1000,
+    blockingStrategy: 'keys',
+    blockingMinSharedNgrams: 2,
+    clusterLinkage: 'single',
+    linkageThreshold: 0.5,
+    canonicalStrategy: 'most_frequent',
+    canonicalReferenceList: [],
     minConfidenceScore: 0.60,
-    maxResultsPerCompany: 15
+    maxResultsPerCompany: 15,
+    explainMatches: false
   }
 };
 
@@ -56,19 +231,103 @@ export function validateConfig(cfg: DeduplicationConfig): string[] {
     if (v < 0 || v > 1) errs.push(`${field} must be between 0 and 1`);
   };
   between0and1(cfg.highSimilarityThreshold, 'highSimilarityThreshold');
+  between0and1(cfg.jaroWinklerThreshold, 'jaroWinklerThreshold');
   between0and1(cfg.tokenMatchThreshold, 'tokenMatchThreshold');
+  between0and1(cfg.weightedTokenMatchThreshold, 'weightedTokenMatchThreshold');
+  between0and1(cfg.phoneticMatchThreshold, 'phoneticMatchThreshold');
+  between0and1(cfg.phoneticMinSimilarity, 'phoneticMinSimilarity');
   between0and1(cfg.partialMatchThreshold, 'partialMatchThreshold');
+  between0and1(cfg.ngramThreshold, 'ngramThreshold');
   between0and1(cfg.minConfidenceScore, 'minConfidenceScore');
+  between0and1(cfg.linkageThreshold, 'linkageThreshold');
 
   if (cfg.maxResultsPerCompany <= 0) {
     errs.push('maxResultsPerCompany must be > 0');
   }
+  if (!Number.isInteger(cfg.blockingKeyLength) || cfg.blockingKeyLength < 1) {
+    errs.push('blockingKeyLength must be a positive integer');
+  }
+  if (!CLUSTER_LINKAGES.includes(cfg.clusterLinkage)) {
+    errs.push(`clusterLinkage must be one of ${CLUSTER_LINKAGES.join(', ')}`);
+  }
+  if (!Number.isInteger(cfg.ngramSize) || cfg.ngramSize < 1) {
+    errs.push('ngramSize must be a positive integer');
+  }
+  if (!NGRAM_METRICS.includes(cfg.ngramMetric)) {
+    errs.push(`ngramMetric must be one of ${NGRAM_METRICS.join(', ')}`);
+  }
+  if (!BLOCKING_STRATEGIES.includes(cfg.blockingStrategy)) {
+    errs.push(`blockingStrategy must be one of ${BLOCKING_STRATEGIES.join(', ')}`);
+  }
+  if (!Number.isInteger(cfg.blockingMinSharedNgrams) || cfg.blockingMinSharedNgrams < 1) {
+    errs.push('blockingMinSharedNgrams must be a positive integer');
+  }
+  if (!SCORING_MODES.includes(cfg.scoringMode)) {
+    errs.push(`scoringMode must be one of ${SCORING_MODES.join(', ')}`);
+  }
+  if (Object.values(cfg.layerWeights).some(w => !(w >= 0))) {
+    errs.push('layerWeights must be >= 0');
+  }
+  const unknownJurisdictions = cfg.legalFormJurisdictions.filter(j => !LEGAL_FORM_JURISDICTIONS.includes(j));
+  if (unknownJurisdictions.length) {
+    errs.push(`unknown legalFormJurisdictions: ${unknownJurisdictions.join(', ')}`);
+  }
+  if (cfg.caseFoldLocale !== null && !isValidLocale(cfg.caseFoldLocale)) {
+    errs.push(`caseFoldLocale is not a valid locale: ${cfg.caseFoldLocale}`);
+  }
+  if (!INDUSTRY_DESCRIPTOR_MODES.includes(cfg.industryDescriptorMode)) {
+    errs.push(`industryDescriptorMode must be one of ${INDUSTRY_DESCRIPTOR_MODES.join(', ')}`);
+  }
+  between0and1(cfg.industryDescriptorPenalty, 'industryDescriptorPenalty');
+  if (!DEGENERATE_NAME_POLICIES.includes(cfg.degenerateNamePolicy)) {
+    errs.push(`degenerateNamePolicy must be one of ${DEGENERATE_NAME_POLICIES.join(', ')}`);
+  }
+  if (!Number.isInteger(cfg.minNameLength) || cfg.minNameLength < 0) {
+    errs.push('minNameLength must be a non-negative integer');
+  }
+  if (!Number.isInteger(cfg.minNameTokens) || cfg.minNameTokens < 0) {
+    errs.push('minNameTokens must be a non-negative integer');
+  }
+  if (!NUMERIC_CONFLICT_MODES.includes(cfg.numericConflictMode)) {
+    errs.push(`numericConflictMode must be one of ${NUMERIC_CONFLICT_MODES.join(', ')}`);
+  }
+  between0and1(cfg.numericConflictPenalty, 'numericConflictPenalty');
+  if (!GEOGRAPHIC_MODES.includes(cfg.geographicMode)) {
+    errs.push(`geographicMode must be one of ${GEOGRAPHIC_MODES.join(', ')}`);
+  }
+  if (!HUB_DETECTIONS.includes(cfg.hubDetection)) {
+    errs.push(`hubDetection must be one of ${HUB_DETECTIONS.join(', ')}`);
+  }
+  if (!Number.isInteger(cfg.hubMinDegree) || cfg.hubMinDegree < 1) {
+    errs.push('hubMinDegree must be a positive integer');
+  }
+  if (cfg.hubStdDevFactor < 0) errs.push('hubStdDevFactor must be >= 0');
+  if (!PHONETIC_ALGORITHMS.includes(cfg.phoneticAlgorithm)) {
+    errs.push(`phoneticAlgorithm must be one of ${PHONETIC_ALGORITHMS.join(', ')}`);
+  }
+  if (!CANONICAL_STRATEGIES.includes(cfg.canonicalStrategy)) {
+    errs.push(`canonicalStrategy must be one of ${CANONICAL_STRATEGIES.join(', ')}`);
+  }
+  if (cfg.canonicalStrategy === 'reference' && cfg.canonicalReferenceList.length === 0) {
+    errs.push('canonicalReferenceList must not be empty for the reference strategy');
+  }
+  if (cfg.blockingMaxBlockSize < 2) {
+    errs.push('blockingMaxBlockSize must be >= 2');
+  }
   return errs;
 }
 
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Prettify the print - communicate the config to the user better
  */
 export function describeConfig(config: DeduplicationConfig): string {
-  return `Configuration:\n  Preset thresholds: \n    • High similarity ≥ ${(config.highSimilarityThreshold*100).toFixed(0)}%\n    • Token match   ≥ ${(config.tokenMatchThreshold*100).toFixed(0)}%\n    • Partial match ≥ ${(config.partialMatchThreshold*100).toFixed(0)}%\n  Normalization: removeSuffixes=${config.removeSuffixes}, handleAccents=${config.handleAccents}, removeNumbers=${config.removeNumbers}\n  Output: minConfidence ≥ ${(config.minConfidenceScore*100).toFixed(0)}%, maxResultsPerCompany=${config.maxResultsPerCompany}`;
+  return `Configuration:\n  Preset thresholds: \n    • High similarity ≥ ${(config.highSimilarityThreshold*100).toFixed(0)}%\n    • Jaro-Winkler  ≥ ${(config.jaroWinklerThreshold*100).toFixed(0)}%\n    • Token match   ≥ ${(config.tokenMatchThreshold*100).toFixed(0)}%\n    • Weighted token ≥ ${(config.weightedTokenMatchThreshold*100).toFixed(0)}%\n    • Phonetic      ${config.phoneticMatching ? `≥ ${(config.phoneticMatchThreshold*100).toFixed(0)}% (${config.phoneticAlgorithm}, spelling ≥ ${(config.phoneticMinSimilarity*100).toFixed(0)}%)` : 'off'}\n    • Partial match ≥ ${(config.partialMatchThreshold*100).toFixed(0)}%\n    • ${config.ngramSize}-gram ${config.ngramMetric}  ≥ ${(config.ngramThreshold*100).toFixed(0)}%\n  Normalization: case folding=${config.caseFoldLocale ?? 'locale-independent'}, removeSuffixes=${config.removeSuffixes} (legal forms: ${config.legalFormJurisdictions.length === LEGAL_FORM_JURISDICTIONS.length ? 'all jurisdictions' : config.legalFormJurisdictions.join(', ')}), industry descriptors=${config.industryDescriptorMode}${config.industryDescriptorMode === 'penalize' ? ` (-${(config.industryDescriptorPenalty*100).toFixed(0)}%)` : ''}, handleAccents=${config.handleAccents}, transliterate=${config.transliterate}, removeNumbers=${config.removeNumbers}\n  Acronyms: ${config.acronymMatching ? `on (skip stopwords=${config.acronymSkipStopwords}, skip suffixes=${config.acronymSkipSuffixes})` : 'off'}\n  Scoring: ${config.scoringMode}${config.scoringMode === 'logistic' ? ` (bias ${config.logisticBias})` : ''}\n  Degenerate names: ${config.degenerateNamePolicy}${config.degenerateNamePolicy === 'off' ? '' : ` (< ${config.minNameLength} chars or < ${config.minNameTokens} tokens)`}\n  Numeric conflicts: ${config.numericConflictMode}${config.numericConflictMode === 'penalize' ? ` (-${(config.numericConflictPenalty*100).toFixed(0)}%)` : ''}\n  Geographic variants: ${config.geographicMode} (${config.geographicTerms.length} terms)\n  Hierarchy: ${config.hierarchyMode ? 'on' : 'off'}\n  Hubs: ${config.hubDetection}${config.hubDetection === 'off' ? '' : ` (degree ≥ ${config.hubMinDegree} and > mean + ${config.hubStdDevFactor}σ)`}\n  Blocking: ${config.useBlocking ? `on (${config.blockingStrategy === 'ngram' ? `n-gram index, ≥ ${config.blockingMinSharedNgrams} shared` : `key length ${config.blockingKeyLength}`}, max block ${config.blockingMaxBlockSize})` : 'off'}\n  Clustering: ${config.clusterLinkage} linkage${config.clusterLinkage === 'single' ? '' : ` ≥ ${(config.linkageThreshold*100).toFixed(0)}%`}\n  Canonical name: ${config.canonicalStrategy}\n  Output: minConfidence ≥ ${(config.minConfidenceScore*100).toFixed(0)}%, maxResultsPerCompany=${config.maxResultsPerCompany}`;
 } 
\ No newline at end of file
@@ -3,14 +3,34 @@ import {
   DeduplicationResult,
   DuplicateGroup,
   CompanyMatch,
-  ConfigPreset
+  ConfigPreset,
+  CandidateStats,
+  PreparedCompany,
+  CompanyRecord,
+  SourceInfo,
+  TokenIdf,
+  MatchLayer,
+  PairExplanation,
+  SiblingOfficeGroup,
+  DegenerateHandling,
+  HubReport
 } from './types';
 
 import { DEFAULT_CONFIG, createConfig, validateConfig } from './config';
-import { findAllMatches } from './utils/matcher';
+import { findAllMatches, calculateSimilarity, createDefaultLayers } from './utils/matcher';
+import { BlockingIndex } from './utils/blocking';
+import { prepareCompanies, prepareCompany, isSiblingOffice, stripGeographicTerms } from './utils/normalizer';
+import { clusterMatches, orientMatch, MatchCluster } from './utils/clustering';
+import { pickCanonicalName } from './utils/canonical';
+import { buildTokenIdf } from './utils/idf';
+import { explainPair } from './utils/explain';
+import { buildHierarchy } from './utils/hierarchy';
+import { findHubs, matchDegrees } from './utils/hubs';
 
 export class CompanyDeduplicator {
   private config: DeduplicationConfig;
+  private idfCache = new WeakMap<PreparedCompany[], TokenIdf>();
+  private layers: MatchLayer[] = createDefaultLayers();
 
   constructor(config: DeduplicationConfig = DEFAULT_CONFIG) {
     const errs = validateConfig(config);
@@ -37,43 +57,284 @@ export class CompanyDeduplicator {
 
   /**
    * Find duplicates for ALL companies in the given list.
+   - Accepts plain names or records with line numbers (see readCompanyRecordsFromFile).
    - Remove empty/whitespace lines.
-   – De-duplicates the input list itself.
-   – Returns grouped matches & timing info.
+   – De-duplicates the input list itself, keeping each spelling's occurrence
+     count and line numbers in `sources`.
+   – Lists names that normalize to (almost) nothing in `degenerateNames`;
+     unmatchable ones are not compared at all (`degenerateNamePolicy`).
+   – Only compares names sharing a blocking key when `useBlocking` is on.
+   – Reports names matching abnormally many others as `hubs` (degree counted
+     before maxResultsPerCompany) and optionally keeps them out of clustering.
+   – Weights tokens by their rarity across the whole list (TF-IDF layer).
+   – Merges matches transitively (A~B, B~C => {A, B, C}) so every name lands
+     in exactly one group, independent of input order. `clusterLinkage` decides
+     how strict a merge is.
+   – Lists offices that differ only in geographic terms as `siblingOffices`
+     instead of duplicates when `geographicMode` is 'report_separately'
+     (both names need a geographic term; the company itself stays grouped).
+   – Picks a canonical spelling per group (`canonicalStrategy`).
+   – With `hierarchyMode`, adds each group's parent/child tree.
+   – Returns grouped matches, pair statistics & timing info.
    */
-  findDuplicates(companies: string[]): DeduplicationResult {
+  findDuplicates(companies: string[] | CompanyRecord[]): DeduplicationResult {
     const start = Date.now();
 
-    const uniqueCompanies = [...new Set(companies.map(c => c.trim()).filter(Boolean))];
-    const processed = new Set<string>();
-    const groups: DuplicateGroup[] = [];
-
-    for (const company of uniqueCompanies) {
-      if (processed.has(company)) continue;
-
-      const matches = findAllMatches(company, uniqueCompanies, this.config);
-      if (matches.length) {
-        groups.push({
-          original: company,
-          duplicates: matches,
-          totalMatches: matches.length
-        });
-        // mark original + all candidates
-        processed.add(company);
-        matches.forEach(m => processed.add(m.candidate));
-      }
+    const sources = collectSources(companies);
+    const uniqueCompanies = [...sources.keys()].sort();
+    const prepared = uniqueCompanies.map(name => prepareCompany(name, this.config, sources.get(name)));
+    const frequencies = new Map([...sources].map(([name, info]) => [name, info.occurrences]));
+
+    const matchable = prepared.filter(p => p.degenerate !== 'unmatchable');
+    const degenerateNames = prepared
+      .filter(p => p.degenerate)
+      .map(p => ({ name: p.raw, normalized: p.normalized, handling: p.degenerate as DegenerateHandling }));
+
+    const index = this.config.useBlocking ? new BlockingIndex(matchable, this.config) : null;
+    const idf = buildTokenIdf(matchable);
+
+    // match without truncation so hub degrees count every match, then apply maxResultsPerCompany
+    const untruncated = { ...this.config, maxResultsPerCompany: Infinity };
+    const maxResults = this.config.maxResultsPerCompany;
+    const allMatches: CompanyMatch[] = [];
+    const truncated = new Map<string, number>();
+    let matches: CompanyMatch[] = [];
+    let candidateCount = 0;
+    for (const company of matchable) {
+      const candidates = index ? index.candidatesFor(company) : matchable;
+      candidateCount += candidates.length;
+      const found = findAllMatches(company, candidates, untruncated, { idf, layers: this.layers });
+      allMatches.push(...found);
+      matches.push(...found.slice(0, maxResults));
+      if (found.length > maxResults) truncated.set(company.raw, found.length - maxResults);
     }
 
+    const hubs = this.findHubs(matchable, allMatches, truncated);
+    const excluded = new Set(hubs.filter(h => h.excluded).map(h => h.name));
+    if (excluded.size) matches = matches.filter(m => !excluded.has(m.original) && !excluded.has(m.candidate));
+
+    // offices of one company are kept out of the duplicate groups when reported separately;
+    // only two offices are siblings, the company and one of its offices ("Ubisoft" /
+    // "Ubisoft Paris") stay in the groups where hierarchyMode can put one under the other
+    const separateOffices = this.config.geographicMode === 'report_separately';
+    const terms = this.config.geographicTerms;
+    const isOffice = (m: CompanyMatch) => separateOffices && isSiblingOffice(m.normalizedOriginal, m.normalizedCandidate, terms);
+    const byName = new Map(prepared.map(p => [p.raw, p]));
+    const siblingOffices = clusterMatches(matches.filter(isOffice)).map(cluster =>
+      toSiblingOfficeGroup(cluster, (byName.get(cluster.members[0]) as PreparedCompany).normalized, terms)
+    );
+
+    const groups = clusterMatches(matches.filter(m => !isOffice(m)), {
+      linkage: this.config.clusterLinkage,
+      threshold: this.config.linkageThreshold,
+      similarity: (a, b) =>
+        calculateSimilarity((byName.get(a) as PreparedCompany).normalized, (byName.get(b) as PreparedCompany).normalized)
+    }).map(cluster => {
+      const canonical = pickCanonicalName(cluster.members, {
+        strategy: this.config.canonicalStrategy,
+        frequencies,
+        referenceList: this.config.canonicalReferenceList,
+        legalFormJurisdictions: this.config.legalFormJurisdictions
+      });
+      const group = toDuplicateGroup(cluster, canonical, sources);
+      if (this.config.hierarchyMode) {
+        group.hierarchy = buildHierarchy(group.members, name => (byName.get(name) as PreparedCompany).normalized);
+      }
+      return group;
+    });
+
     return {
       totalCompanies: uniqueCompanies.length,
       duplicateGroups: groups,
+      siblingOffices,
+      degenerateNames,
+      hubs,
       processingTimeMs: Date.now() - start,
+      candidateStats: index ? index.getStats(candidateCount) : fullComparisonStats(matchable.length),
       config: this.getConfig()
     };
   }
 
-  findDuplicatesForCompany(company: string, candidates: string[]): CompanyMatch[] {
-    const cleaned = candidates.map(c => c.trim()).filter(Boolean);
-    return findAllMatches(company, cleaned, this.config);
+  /**
+   * Normalize a list once with the current config. The result can be passed
+   * to findDuplicatesForCompany() for any number of queries; prepare again
+   * after changing the normalization settings.
+   */
+  prepare(companies: string[]): PreparedCompany[] {
+    return prepareCompanies(companies, this.config);
+  }
+
+  findDuplicatesForCompany(company: string | PreparedCompany, candidates: string[] | PreparedCompany[]): CompanyMatch[] {
+    const cleaned = isPreparedList(candidates) ? candidates : this.prepare(candidates);
+    return findAllMatches(company, cleaned, this.config, { idf: this.idfFor(cleaned), layers: this.layers });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Why `candidate` is or isn't reported for `original` under the current
+   * config and layers. Pass the rest of the list to account for blocking and
+   * the maxResultsPerCompany rank.
+   */
+  explainPair(original: string, candidate: string, candidates: string[] = []): PairExplanation {
+    return explainPair(original, candidate, this.config, { candidates, layers: this.layers });
+  }
+
+  /****************
+   * Layer registry – the matching layers this instance runs, in order.
+   * Built-in layers can be disabled, removed or reordered like custom ones.
+   ***************/
+
+  /** Current layers in run order (copies – use the methods below to change them). */
+  getLayers(): MatchLayer[] {
+    return this.layers.map(layer => ({ ...layer }));
+  }
+
+  /** Add a layer at `position` (default: last). Layer names must be unique. */
+  addLayer(layer: MatchLayer, position: number = this.layers.length): void {
+    const errs = validateLayer(layer);
+    if (this.layers.some(l => l.name === layer.name)) errs.push(`layer "${layer.name}" already exists`);
+    if (errs.length) throw new Error(`Invalid layer: ${errs.join(', ')}`);
+    this.layers.splice(clampPosition(position, this.layers.length), 0, { ...layer });
+  }
+
+  removeLayer(name: string): void {
+    this.layers.splice(this.layerIndex(name), 1);
+  }
+
+  /** Move a layer to `position`; earlier layers win ties between equal scores. */
+  moveLayer(name: string, position: number): void {
+    const [layer] = this.layers.splice(this.layerIndex(name), 1);
+    this.layers.splice(clampPosition(position, this.layers.length), 0, layer);
+  }
+
+  setLayerEnabled(name: string, enabled: boolean): void {
+    this.layers[this.layerIndex(name)].enabled = enabled;
+  }
+
+  /** Back to the built-in layers in their default order. */
+  resetLayers(): void {
+    this.layers = createDefaultLayers();
+  }
+
+  private layerIndex(name: string): number {
+    const i = this.layers.findIndex(l => l.name === name);
+    if (i === -1) throw new Error(`Unknown layer: ${name}`);
+    return i;
+  }
+
+  /** Hubs among `companies`, judged on their untruncated matches. */
+  private findHubs(companies: PreparedCompany[], allMatches: CompanyMatch[], truncated: Map<string, number>): HubReport[] {
+    if (this.config.hubDetection === 'off') return [];
+    const hubs = findHubs(companies.map(c => c.raw), matchDegrees(allMatches), {
+      minDegree: this.config.hubMinDegree,
+      stdDevFactor: this.config.hubStdDevFactor
+    });
+    return hubs.map(hub => ({
+      ...hub,
+      truncated: truncated.get(hub.name) ?? 0,
+      excluded: this.config.hubDetection === 'exclude'
+    }));
+  }
+
+  /** Token IDF of a candidate list, cached per prepared list. */
+  private idfFor(candidates: PreparedCompany[]): TokenIdf {
+    let idf = this.idfCache.get(candidates);
+    if (!idf) {
+      idf = buildTokenIdf(candidates);
+      this.idfCache.set(candidates, idf);
+    }
+    return idf;
+  }
+}
+
+/**
+ * Turns a cluster into a group headed by its first member. Every other member
+ * gets one entry: its direct match with the head when there is one, else its
+ * strongest link into the cluster.
+ */
+function toDuplicateGroup(cluster: MatchCluster, canonical: string, sources: Map<string, SourceInfo>): DuplicateGroup {
+  const [head, ...rest] = cluster.members;
+  const duplicates = rest.map(member => {
+    const touching = cluster.edges.filter(e => e.original === member || e.candidate === member);
+    const direct = touching.find(e => e.original === head || e.candidate === head);
+    const best = direct ?? touching.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    return orientMatch(best, member);
+  });
+  const memberSources: Record<string, SourceInfo> = {};
+  cluster.members.forEach(m => (memberSources[m] = sources.get(m) as SourceInfo));
+
+  return {
+    original: head,
+    canonical,
+    members: cluster.members,
+    duplicates,
+    totalMatches: duplicates.length,
+    cohesion: cluster.cohesion,
+    sources: memberSources,
+    totalOccurrences: cluster.members.reduce((sum, m) => sum + memberSources[m].occurrences, 0)
+  };
+}
+
+/**
+ * Offices linked by geographic matches, under the name they share
+ */
+function toSiblingOfficeGroup(cluster: MatchCluster, firstNormalized: string, terms: string[]): SiblingOfficeGroup {
+  return {
+    parent: stripGeographicTerms(firstNormalized, terms),
+    offices: cluster.members,
+    matches: cluster.edges
+  };
+}
+
+/**
+ * Counts every trimmed spelling and records its line/row numbers. Plain
+ * strings are numbered by their 1-based position in the array.
+ */
+function collectSources(companies: string[] | CompanyRecord[]): Map<string, SourceInfo> {
+  const sources = new Map<string, SourceInfo>();
+  companies.forEach((entry: string | CompanyRecord, i: number) => {
+    const record = typeof entry === 'string' ? { name: entry, line: i + 1 } : entry;
+    const name = record.name.trim();
+    if (!name) return;
+
+    const info = sources.get(name);
+    if (info) {
+      info.occurrences++;
+      info.lines.push(record.line);
+    } else {
+      sources.set(name, { occurrences: 1, lines: [record.line] });
+    }
+  });
+  sources.forEach(info => info.lines.sort((a, b) => a - b));
+  return sources;
+}
+
+function validateLayer(layer: MatchLayer): string[] {
+  const errs: string[] = [];
+  if (!layer.name) errs.push('name must not be empty');
+  if (typeof layer.score !== 'function') errs.push('score must be a function');
+  if (typeof layer.threshold === 'number' && (layer.threshold < 0 || layer.threshold > 1)) {
+    errs.push('threshold must be between 0 and 1');
+  }
+  return errs;
+}
+
+function clampPosition(position: number, length: number): number {
+  return Math.max(0, Math.min(position, length));
+}
+
+function isPreparedList(list: string[] | PreparedCompany[]): list is PreparedCompany[] {
+  return list.length > 0 && typeof list[0] !== 'string';
+}
+
+/** Stats for a run without blocking – every pair is a candidate. */
+function fullComparisonStats(n: number): CandidateStats {
+  const totalPairs = (n * (n - 1)) / 2;
+  return {
+    blockingEnabled: false,
+    totalPairs,
+    candidatePairs: totalPairs,
+    prunedPairs: 0,
+    blocks: 0,
+    skippedBlocks: 0
+  };
+}
@@ -12,9 +12,62 @@ export {
   CompanyDeduplicator
 } from './deduplicator';
 
+export {
+  BlockingIndex,
+  createBlockingKeys
+} from './utils/blocking';
+
+export {
+  findAllMatches,
+  calculateCompositeScore,
+  createDefaultLayers
+} from './utils/matcher';
+
+export {
+  explainPair
+} from './utils/explain';
+
+export {
+  buildHierarchy
+} from './utils/hierarchy';
+
+export {
+  clusterMatches
+} from './utils/clustering';
+
+export {
+  pickCanonicalName
+} from './utils/canonical';
+
+export {
+  prepareCompany,
+  prepareCompanies,
+  normalizeCompanyNameWithTrace,
+  caseFold,
+  isLikelyGeographicVariant,
+  DEFAULT_GEOGRAPHIC_TERMS,
+  DEFAULT_INDUSTRY_DESCRIPTORS
+} from './utils/normalizer';
+
+export {
+  LEGAL_FORMS,
+  LEGAL_FORM_JURISDICTIONS
+} from './utils/legalForms';
+
+export {
+  transliterate
+} from './utils/transliterate';
+
+export {
+  readCompanyNamesFromFile,
+  readCompanyRecordsFromFile,
+  writeResultsToFile
+} from './utils/fileReader';
+
 export {
   CONFIG_PRESETS,
   DEFAULT_CONFIG,
+  DEFAULT_LAYER_WEIGHTS,
   createConfig,
   validateConfig,
   describeConfig
@@ -25,7 +78,34 @@ export type {
   DeduplicationResult,
   DuplicateGroup,
   CompanyMatch,
+  MatchMethod,
+  BuiltinMatchMethod,
+  MatchLayer,
+  MatchContext,
+  MatchExplanation,
+  PairExplanation,
+  LayerScore,
+  NormalizationTrace,
+  NormalizationStep,
+  CandidateStats,
+  PreparedCompany,
+  CompanyRecord,
+  SourceInfo,
   ConfigPreset,
+  ClusterLinkage,
+  CanonicalStrategy,
+  ScoringMode,
+  NumericConflictMode,
+  IndustryDescriptorMode,
+  GeographicMode,
+  SiblingOfficeGroup,
+  MatchRelation,
+  DegenerateName,
+  HubReport,
+  HubDetection,
+  LegalFormJurisdiction,
+  DegenerateNamePolicy,
+  HierarchyNode,
   OutputFormat
 } from './types';
 
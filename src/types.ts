@@ -5,17 +5,226 @@
 export interface DeduplicationConfig {
   // Layer thresholds (0-1, where 1 is exact match)
   highSimilarityThreshold: number;  // For Levenshtein-based matching
+  jaroWinklerThreshold: number;     // For Jaro-Winkler matching (prefix-weighted)
   tokenMatchThreshold: number;      // For word-level matching
+  weightedTokenMatchThreshold: number; // For IDF-weighted word-level matching
+  phoneticMatchThreshold: number;   // For sound-alike matching (share of phonetic codes)
   partialMatchThreshold: number;    // For substring matching
+  ngramThreshold: number;           // For character n-gram matching
+  ngramSize: number;                // n of the character n-grams (3 = trigrams)
+  ngramPadding: boolean;            // Pad names so first/last characters form full n-grams
+  ngramMetric: NgramMetric;         // How two n-gram profiles are compared
   
   // Normalization options
-  removeSuffixes: boolean;          // Remove "Ltd", "Inc", "Studio", etc.
+  removeSuffixes: boolean;          // Remove legal forms ("Ltd", "GmbH", "K.K.") from the end
+  legalFormJurisdictions: LegalFormJurisdiction[]; // Legal forms stripped from the end of names
+  industryDescriptorMode: IndustryDescriptorMode; // Trailing "Studio", "Games", "Software", ...
+  industryDescriptors: string[];    // Words treated as industry descriptors
+  industryDescriptorPenalty: number; // Share of confidence removed in 'penalize' mode (0-1)
+  caseFoldLocale: string | null;    // Locale for lowercasing ('tr': "I" -> "ı"); null = locale-independent, "ı" -> "i"
   handleAccents: boolean;           // Convert é -> e, ñ -> n, etc.
+  transliterate: boolean;           // Convert Cyrillic, Greek and kana to Latin ("Яндекс" -> "yandex")
   removeNumbers: boolean;           // Remove numeric characters
   
+  phoneticAlgorithm: PhoneticAlgorithm; // Encoding used by the phonetic layer
+  phoneticMatching: boolean;        // Run the phonetic layer at all
+  phoneticMinSimilarity: number;    // Jaro-Winkler sound-alike 4-letter tokens need; longer ones may differ more
+  acronymMatching: boolean;         // Match "IBM" against "International Business Machines"
+  acronymSkipStopwords: boolean;    // Also try initials without "of", "and", "the", …
+  acronymSkipSuffixes: boolean;     // Also try initials without suffix words (Inc, Games, …)
+  
+  // Scoring
+  scoringMode: ScoringMode;         // Best single layer, or all layers combined
+  layerWeights: Record<string, number>; // Weight per layer name for combined scoring (missing = 1)
+  logisticBias: number;             // Intercept of the 'logistic' model
+  
+  // Degenerate names ("Games Studio" normalizes to "")
+  degenerateNamePolicy: DegenerateNamePolicy; // What to do with names below the minimums
+  minNameLength: number;            // Minimum length of the normalized name
+  minNameTokens: number;            // Minimum token count of the normalized name
+  
+  // Negative evidence
+  numericConflictMode: NumericConflictMode; // What to do when numbers / numerals differ
+  numericConflictPenalty: number;   // Share of confidence removed in 'penalize' mode (0-1)
+  
+  // Geographic office variants
+  geographicMode: GeographicMode;   // How "Ubisoft Montreal" vs "Ubisoft Paris" is handled
+  geographicTerms: string[];        // Place / region words that mark an office
+  
+  // Hierarchy
+  hierarchyMode: boolean;           // Record parent/child direction of containment matches
+  
+  // Hubs (names that match abnormally many others)
+  hubDetection: HubDetection;       // Report hubs, or also keep them out of clustering
+  hubMinDegree: number;             // Fewer distinct matches than this is never a hub
+  hubStdDevFactor: number;          // Hub if degree > mean + factor · standard deviation
+  
+  // Candidate generation (blocking)
+  useBlocking: boolean;             // Only compare names that share a blocking key
+  blockingKeyLength: number;        // Characters taken from each token for prefix/suffix keys
+  blockingMaxBlockSize: number;     // Blocks larger than this are treated as stop-keys and skipped
+  blockingStrategy: BlockingStrategy; // Which keys the blocking index uses
+  blockingMinSharedNgrams: number;  // 'ngram' strategy: n-grams two names must share to be compared
+  
+  // Clustering
+  clusterLinkage: ClusterLinkage;   // How matches are merged into groups
+  linkageThreshold: number;         // Minimum linkage score for a merge (ignored by 'single')
+  
+  // Canonical name selection
+  canonicalStrategy: CanonicalStrategy; // How the spelling to keep is chosen per group
+  canonicalReferenceList: string[]; // Known-good spellings for the 'reference' strategy
+  
   // Output control
   minConfidenceScore: number;       // Minimum confidence to include in results
   maxResultsPerCompany: number;     // Max duplicates to return per company
+  explainMatches: boolean;          // Attach a score breakdown to every match
+}
+
+/**
+ * One input row: a company name and where it came from
+ */
+export interface CompanyRecord {
+  name: string;                     // The name as read
+  line: number;                     // 1-based line (file) or row (array) number
+}
+
+/**
+ * Where a distinct spelling occurred in the input
+ */
+export interface SourceInfo {
+  occurrences: number;              // How many rows carried this exact spelling
+  lines: number[];                  // Their 1-based line/row numbers, ascending
+}
+
+/**
+ * Initials of a multi-word name and which words were skipped to build them
+ */
+export interface Initialism {
+  value: string;                    // e.g. "ibm"
+  skipped: 'none' | 'stopwords' | 'suffixes';
+}
+
+/**
+ * A company name with everything the matching layers need, computed once
+ */
+export interface PreparedCompany {
+  raw: string;                      // The name as given (trimmed)
+  normalized: string;               // normalizeCompanyName() output
+  tokens: Set<string>;              // Distinct tokens of the normalized name
+  signature: string;                // createFuzzySignature() output
+  length: number;                   // Length of the normalized name
+  tokenCount: number;               // Number of distinct tokens
+  phoneticCodes: Set<string>;       // Phonetic codes of the tokens
+  acronym: string | null;           // Lower-cased acronym if the name is a short all-caps word
+  initialisms: Initialism[];        // Initials of the words, in name order
+  ngrams: Map<string, number>;      // Character n-gram counts of the normalized name
+  numericTokens: Set<string>;       // Numbers and roman numerals of the raw name, as integers
+  descriptors: Set<string>;         // Trailing industry descriptors ('penalize' mode only, else empty)
+  degenerate?: DegenerateHandling;  // Set when the name fell below the minimums
+  source?: SourceInfo;              // Occurrences in the input, when known
+}
+
+/**
+ * How layer scores become a match confidence
+ */
+export type ScoringMode =
+  | 'best'                          // Highest-scoring layer that passes its threshold
+  | 'weighted'                      // Weighted mean of every layer's score
+  | 'logistic';                     // sigmoid(logisticBias + Σ weight·score)
+
+/**
+ * Jurisdictions of the legal-form dictionary (ISO 3166 codes, plus forms
+ * valid across the EU)
+ */
+export type LegalFormJurisdiction =
+  | 'international' | 'us' | 'gb' | 'ca' | 'au' | 'nz' | 'in'
+  | 'de' | 'at' | 'ch' | 'fr' | 'be' | 'lu' | 'nl' | 'es' | 'it' | 'pt'
+  | 'br' | 'mx' | 'se' | 'no' | 'dk' | 'fi' | 'pl' | 'cz' | 'ru'
+  | 'jp' | 'cn' | 'kr';
+
+/**
+ * Handling of names that carry too little information once normalized
+ */
+export type DegenerateNamePolicy =
+  | 'off'                           // Match them like any other name
+  | 'fallback'                      // Keep the suffix words; unmatchable if still too short
+  | 'unmatchable';                  // Never match them
+
+/**
+ * Handling of industry descriptors ("Studio", "Games", "Software") at the
+ * end of a name
+ */
+export type IndustryDescriptorMode =
+  | 'strip'                         // Remove them from the normalized name
+  | 'penalize'                      // Leave them out of the comparison, lower the confidence when they differ
+  | 'keep';                         // Leave them in the name
+
+/**
+ * Handling of names that differ in a distinguishing number ("FIFA 22" / "FIFA 23")
+ */
+export type NumericConflictMode =
+  | 'off'                           // Ignore numbers
+  | 'penalize'                      // Lower the confidence by numericConflictPenalty
+  | 'veto';                         // Never match
+
+/**
+ * Handling of names that differ only in geographic terms
+ */
+export type GeographicMode =
+  | 'ignore'                        // No geographic_variant layer
+  | 'merge'                         // Offices are duplicates of each other
+  | 'report_separately';            // Offices are listed as siblings, not duplicates
+
+/**
+ * What to do with hub names
+ */
+export type HubDetection =
+  | 'off'
+  | 'report'                        // List them in DeduplicationResult.hubs
+  | 'exclude';                      // List them and drop their matches before clustering
+
+/**
+ * Similarity measures for character n-gram profiles
+ */
+export type NgramMetric = 'cosine' | 'dice';
+
+/**
+ * Key families used by the blocking index
+ */
+export type BlockingStrategy =
+  | 'keys'                          // Token prefixes/suffixes, fuzzy signature, phonetic codes
+  | 'ngram';                        // Character n-grams (inverted n-gram index)
+
+/**
+ * Phonetic encodings available to the phonetic layer
+ */
+export type PhoneticAlgorithm = 'soundex' | 'metaphone';
+
+/**
+ * Strategies for merging clusters of matches
+ */
+export type ClusterLinkage =
+  | 'single'                        // Any match joins two clusters (connected components)
+  | 'average'                       // Mean match confidence across the two clusters
+  | 'complete'                      // Weakest match confidence across the two clusters
+  | 'min_similarity';               // Weakest name similarity across the two clusters
+
+/**
+ * Strategies for choosing the canonical spelling of a group
+ */
+export type CanonicalStrategy =
+  | 'most_frequent'                 // Spelling that occurs most often in the input
+  | 'longest'                       // Longest / most complete form
+  | 'legal_suffix'                  // Form that ends with a legal suffix (Ltd, Inc, …)
+  | 'reference';                    // Form present in canonicalReferenceList
+
+/**
+ * Inverse document frequency of tokens over an input list
+ */
+export interface TokenIdf {
+  documents: number;                // Number of names the statistics were built from
+  weights: Map<string, number>;     // Token -> IDF weight
+  unseenWeight: number;             // Weight for tokens not in the corpus
 }
 
 /**
@@ -28,24 +237,140 @@ export interface CompanyMatch {
   method: MatchMethod;              // How this match was found
   normalizedOriginal: string;       // Normalized version of original
   normalizedCandidate: string;      // Normalized version of candidate
+  layerScores?: Record<string, number>; // Every layer's score (combined scoring modes)
+  explanation?: MatchExplanation;   // Score breakdown (explainMatches)
+  relation?: MatchRelation;         // Containment direction (hierarchyMode)
+  originalSource?: SourceInfo;      // Where the original occurred in the input
+  candidateSource?: SourceInfo;     // Where the candidate occurred in the input
+}
+
+/**
+ * Direction of a containment match: the contained name is the parent
+ * ("Ubisoft" -> "Ubisoft Montreal")
+ */
+export interface MatchRelation {
+  parent: string;
+  child: string;
+}
+
+/**
+ * One entity in a group's hierarchy tree
+ */
+export interface HierarchyNode {
+  name: string;
+  aliases: string[];                // Other members with the same normalized name
+  children: HierarchyNode[];        // Sorted by name
+}
+
+/**
+ * One normalization step that changed a name
+ */
+export interface NormalizationStep {
+  step: 'normalize_unicode' | 'lowercase' | 'transliterate' | 'remove_accents' | 'remove_numbers' | 'remove_punctuation' | 'remove_legal_forms' | 'remove_descriptors';
+  result: string;                   // The name after this step
+}
+
+/**
+ * How a raw name became its normalized form
+ */
+export interface NormalizationTrace {
+  input: string;
+  steps: NormalizationStep[];       // Only the steps that changed the name
+  normalized: string;
+}
+
+/**
+ * Outcome of one layer for one pair
+ */
+export interface LayerScore {
+  score: number;                    // Raw layer score (0-1)
+  threshold?: number;               // 'best' scoring: threshold under the active config
+  passed?: boolean;                 // 'best' scoring: score > 0 and score >= threshold
+  weight?: number;                  // 'weighted' / 'logistic' scoring: weight in the composite
+}
+
+/**
+ * Why a pair matched: every layer's score and both normalization traces
+ */
+export interface MatchExplanation {
+  layers: Record<string, LayerScore>; // By layer name, in layer order
+  conflicts: string[];              // Negative-evidence rules that fired
+  original: NormalizationTrace;
+  candidate: NormalizationTrace;
+}
+
+/**
+ * Full verdict on one pair, including why it was or wasn't reported
+ */
+export interface PairExplanation {
+  original: NormalizationTrace;
+  candidate: NormalizationTrace;
+  layers: Record<string, LayerScore>; // By layer name, in layer order
+  scoringMode: ScoringMode;
+  method: MatchMethod | null;       // Winning layer / 'composite', null if nothing passed
+  confidence: number;               // 0 when nothing passed
+  conflicts: string[];              // Negative-evidence rules that fired
+  compared: boolean;                // false when blocking keeps the pair apart
+  minConfidenceScore: number;
+  rank: number | null;              // 1-based among the original's matches, null if filtered out
+  maxResultsPerCompany: number;
+  matched: boolean;                 // Would findAllMatches report this pair
+  reason: string;                   // Human-readable decision
 }
 
 /**
- * Methods used to find matches
+ * Methods used by the built-in matching layers
  */
-export type MatchMethod = 
+export type BuiltinMatchMethod = 
   | 'exact_after_normalization'     // Exact match after normalizing the strings
   | 'high_similarity'               // High similarity
+  | 'jaro_winkler'                  // Jaro-Winkler similarity
   | 'token_match'                   // Word matching
+  | 'weighted_token_match'          // Word matching weighted by token rarity (TF-IDF)
+  | 'phonetic_match'                // Tokens sound alike
+  | 'acronym_match'                 // One name is the initialism of the other
+  | 'ngram_similarity'              // Character n-gram profiles are similar
+  | 'geographic_variant'            // Same name apart from place / region words
+  | 'composite'                     // Weighted / logistic combination of all layers
   | 'partial_match';                // Substring match
 
 /**
- * A group of duplicates for one company
+ * Methods used to find matches – a built-in layer or the name of a custom one
+ */
+export type MatchMethod = BuiltinMatchMethod | (string & {});
+
+/**
+ * What a layer's score function can use besides the two companies
+ */
+export interface MatchContext {
+  config: DeduplicationConfig;      // Configuration of the current run
+  idf: TokenIdf;                    // Token statistics of the input list
+}
+
+/**
+ * A matching layer. A pair matches when score > 0 and score >= threshold;
+ * the score becomes the match confidence and `name` its method.
+ */
+export interface MatchLayer {
+  name: MatchMethod;                // Unique layer name, reported as CompanyMatch.method
+  score: (original: PreparedCompany, candidate: PreparedCompany, context: MatchContext) => number; // 0-1
+  threshold: number | ((config: DeduplicationConfig) => number); // Fixed or read from config
+  enabled?: boolean;                // false skips the layer (default true)
+}
+
+/**
+ * A cluster of names that refer to the same company
  */
 export interface DuplicateGroup {
-  original: string;                 // The main company name
-  duplicates: CompanyMatch[];       // All found duplicates
+  original: string;                 // The main company name (first member)
+  canonical: string;                // Spelling to keep, per canonicalStrategy
+  members: string[];                // Every name in the cluster, sorted
+  duplicates: CompanyMatch[];       // One match per non-original member
   totalMatches: number;             // Count of duplicates
+  cohesion: number;                 // Mean confidence over all member pairs (unmatched pairs count 0)
+  sources: Record<string, SourceInfo>; // Occurrences & lines of every member
+  totalOccurrences: number;         // Input rows covered by this group
+  hierarchy?: HierarchyNode[];      // Parent/child tree of the members (hierarchyMode)
 }
 
 /**
@@ -54,10 +379,60 @@ export interface DuplicateGroup {
 export interface DeduplicationResult {
   totalCompanies: number;           // Total companies processed
   duplicateGroups: DuplicateGroup[]; // All duplicate groups found
+  siblingOffices: SiblingOfficeGroup[]; // Offices of one parent ('report_separately')
+  degenerateNames: DegenerateName[]; // Names below the information minimums
+  hubs: HubReport[];                // Names matching abnormally many others
   processingTimeMs: number;         // Time taken in milliseconds
+  candidateStats: CandidateStats;   // How many pairs were compared vs pruned
   config: DeduplicationConfig;      // Configuration used
 }
 
+/**
+ * What happened to a degenerate name: matched on its unstripped form, or
+ * left out of matching
+ */
+export type DegenerateHandling = 'fallback' | 'unmatchable';
+
+/**
+ * A name that normalized to (almost) nothing
+ */
+export interface DegenerateName {
+  name: string;
+  normalized: string;               // The form used for matching (or that was too short)
+  handling: DegenerateHandling;
+}
+
+/**
+ * A name whose match degree is abnormally high
+ */
+export interface HubReport {
+  name: string;
+  degree: number;                   // Distinct names it matched, before any truncation
+  truncated: number;                // Own matches dropped by maxResultsPerCompany
+  excluded: boolean;                // Left out of clustering ('exclude')
+}
+
+/**
+ * Offices of one company that differ only in geographic terms
+ */
+export interface SiblingOfficeGroup {
+  parent: string;                   // The shared name without geographic terms
+  offices: string[];                // Every office name, sorted
+  matches: CompanyMatch[];          // The geographic matches between them
+}
+
+/**
+ * Pair statistics from the candidate generation stage (unordered pairs)
+ */
+export interface CandidateStats {
+  blockingEnabled: boolean;         // Whether blocking was used for this run
+  totalPairs: number;               // n·(n-1)/2 – pairs a full comparison would check
+  candidatePairs: number;           // Pairs that shared at least one blocking key
+  prunedPairs: number;              // Pairs never handed to the matching layers
+  blocks: number;                   // Number of non-skipped blocks in the index
+  skippedBlocks: number;            // Oversized blocks ignored as stop-keys
+}
+
 /**
  * Predefined configuration presets
  */
@@ -0,0 +1,139 @@
+/**
+ * Candidate generation (blocking) for company deduplication
+ *
+ * Comparing every name with every other name is O(n²) Levenshtein runs. The
+ * blocking index assigns each name a handful of cheap keys and only names
+ * sharing at least one key are handed to the matching layers.
+ */
+
+import { DeduplicationConfig, CandidateStats, PreparedCompany } from '../types';
+
+/**
+ * Blocking keys for one prepared name. With the default 'keys' strategy:
+ *  - prefix and suffix of every token (catches typos at either end of a word)
+ *  - for tokens shorter than two key lengths, where one typo can change both
+ *    prefix and suffix, the token with each character deleted in turn
+ *    ("epic" -> "pic", "eic", "epc", "epi" meets "eic")
+ *  - the fuzzy signature (first 3 chars of every significant token)
+ *  - the phonetic code of every token (sound-alike spellings)
+ *  - acronyms and initialisms, so "IBM" meets "International Business Machines"
+ *  - a shared key for names that normalize to nothing, so they still meet
+ *    each other in the exact-match layer
+ * The 'ngram' strategy replaces the first three with the name's character
+ * n-grams ("g:" keys), turning the index into an inverted n-gram index.
+ */
+export function createBlockingKeys(company: PreparedCompany, config: DeduplicationConfig): string[] {
+  if (company.tokenCount === 0) return ['e:'];
+
+  const keys = new Set<string>();
+  if (config.blockingStrategy === 'ngram') {
+    for (const gram of company.ngrams.keys()) keys.add(`g:${gram}`);
+  } else {
+    const len = config.blockingKeyLength;
+    for (const token of company.tokens) {
+      keys.add(`p:${token.substring(0, len)}`);
+      keys.add(`s:${token.substring(Math.max(0, token.length - len))}`);
+      if (token.length < 2 * len) {
+        for (const variant of deletionNeighbourhood(token)) keys.add(`d:${variant}`);
+      }
+    }
+    if (company.signature) keys.add(`f:${company.signature}`);
+    for (const code of company.phoneticCodes) keys.add(`m:${code}`);
+  }
+
+  if (company.acronym) keys.add(`a:${company.acronym}`);
+  for (const initialism of company.initialisms) keys.add(`a:${initialism.value}`);
+
+  return Array.from(keys);
+}
+
+/**
+ * A token and every string one deletion away from it. Two tokens within one
+ * edit of each other (substitution, insertion or deletion) share a variant.
+ */
+function deletionNeighbourhood(token: string): string[] {
+  const variants = [token];
+  for (let i = 0; i < token.length; i++) variants.push(token.slice(0, i) + token.slice(i + 1));
+  return variants;
+}
+
+/**
+ * Inverted index from blocking key -> positions of the names carrying it.
+ * Blocks larger than `blockingMaxBlockSize` are treated as stop-keys (too
+ * generic to be useful) and never produce candidates. A single n-gram is
+ * weak evidence, so n-gram keys only make a candidate once
+ * `blockingMinSharedNgrams` of them are shared; any other key suffices alone.
+ */
+export class BlockingIndex {
+  private readonly companies: PreparedCompany[];
+  private readonly positions = new Map<PreparedCompany, number>();
+  private readonly keysByPosition: string[][] = [];
+  private readonly blocks = new Map<string, number[]>();
+  private readonly maxBlockSize: number;
+  private readonly minShared: number;
+
+  constructor(companies: PreparedCompany[], config: DeduplicationConfig) {
+    this.companies = companies;
+    this.maxBlockSize = config.blockingMaxBlockSize;
+    this.minShared = config.blockingStrategy === 'ngram' ? config.blockingMinSharedNgrams : 1;
+
+    companies.forEach((company, i) => {
+      this.positions.set(company, i);
+      const keys = createBlockingKeys(company, config);
+      this.keysByPosition.push(keys);
+      for (const key of keys) {
+        const block = this.blocks.get(key);
+        if (block) block.push(i);
+        else this.blocks.set(key, [i]);
+      }
+    });
+  }
+
+  /**
+   * All indexed companies sharing a usable key with `company` (excluding
+   * itself), returned in input order so results stay deterministic.
+   */
+  candidatesFor(company: PreparedCompany): PreparedCompany[] {
+    const self = this.positions.get(company);
+    if (self === undefined) return [];
+
+    const shared = new Map<number, number>();
+    for (const key of this.keysByPosition[self]) {
+      const block = this.blocks.get(key) as number[];
+      if (block.length > this.maxBlockSize) continue;
+      const weight = key.startsWith('g:') ? 1 : this.minShared;
+      for (const i of block) {
+        if (i !== self) shared.set(i, (shared.get(i) ?? 0) + weight);
+      }
+    }
+    return Array.from(shared)
+      .filter(([, count]) => count >= this.minShared)
+      .map(([i]) => i)
+      .sort((a, b) => a - b)
+      .map(i => this.companies[i]);
+  }
+
+  /**
+   * Pair statistics for reporting. `candidateCount` is the total length of
+   * the candidatesFor() lists of every indexed company, counted by the caller
+   * while matching; candidacy is symmetric, so every unordered pair is in
+   * there exactly twice.
+   */
+  getStats(candidateCount: number): CandidateStats {
+    const n = this.companies.length;
+
+    const blocks = Array.from(this.blocks.values());
+    const skippedBlocks = blocks.filter(b => b.length > this.maxBlockSize).length;
+    const totalPairs = (n * (n - 1)) / 2;
+    const candidatePairs = candidateCount / 2;
+
+    return {
+      blockingEnabled: true,
+      totalPairs,
+      candidatePairs,
+      prunedPairs: totalPairs - candidatePairs,
+      blocks: blocks.length - skippedBlocks,
+      skippedBlocks
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Canonical name selection – decides which spelling of a duplicate group
+ * downstream cleanup jobs should keep.
+ */
+
+import { CanonicalStrategy, LegalFormJurisdiction } from '../types';
+import { hasLegalSuffix } from './normalizer';
+
+/**
+ * Inputs for picking a canonical spelling
+ */
+export interface CanonicalOptions {
+  strategy: CanonicalStrategy;
+  frequencies?: Map<string, number>; // Occurrences of each spelling in the input
+  referenceList?: string[];          // Known-good spellings for 'reference'
+  legalFormJurisdictions?: LegalFormJurisdiction[]; // Legal forms 'legal_suffix' looks for (default: all)
+}
+
+/**
+ * Picks the canonical spelling among `members`. The chosen strategy is
+ * applied first; ties (or a strategy that finds nothing, e.g. no member is
+ * in the reference list) fall back to frequency, then length, then
+ * alphabetical order so the result is always deterministic.
+ */
+export function pickCanonicalName(members: string[], options: CanonicalOptions): string {
+  const frequency = (name: string) => options.frequencies?.get(name) ?? 1;
+  const reference = new Set((options.referenceList ?? []).map(r => r.trim().toLowerCase()));
+
+  const primary = (name: string): number => {
+    switch (options.strategy) {
+      case 'longest':
+        return name.length;
+      case 'legal_suffix':
+        return hasLegalSuffix(name, options.legalFormJurisdictions) ? 1 : 0;
+      case 'reference':
+        return reference.has(name.trim().toLowerCase()) ? 1 : 0;
+      default: // most_frequent
+        return frequency(name);
+    }
+  };
+
+  const ranked = [...members].sort(
+    (a, b) =>
+      primary(b) - primary(a) ||
+      frequency(b) - frequency(a) ||
+      b.length - a.length ||
+      (a < b ? -1 : a > b ? 1 : 0)
+  );
+  return ranked[0];
+}
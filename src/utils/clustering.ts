@@ -0,0 +1,201 @@
+/**
+ * Clustering of pairwise matches into duplicate groups
+ *
+ * Matches form an undirected graph over company names. Edges are visited
+ * strongest first and each one may merge the two clusters it connects:
+ * 'single' linkage always merges (connected components), the other modes
+ * only merge when the clusters are close enough as a whole, which stops
+ * fuzzy chains from growing into giant clusters. Union-find keeps this
+ * near-linear and the result depends only on the set of edges, never on
+ * input order.
+ */
+
+import { CompanyMatch, ClusterLinkage } from '../types';
+
+/**
+ * One cluster of the match graph
+ */
+export interface MatchCluster {
+  members: string[];                // Sorted member names
+  edges: CompanyMatch[];            // Every match between two members
+  cohesion: number;                 // Mean confidence over all member pairs (0 when unmatched)
+}
+
+/**
+ * How clusters are merged
+ */
+export interface ClusterOptions {
+  linkage: ClusterLinkage;
+  threshold: number;                // Minimum linkage score to merge (ignored by 'single')
+  similarity?: (a: string, b: string) => number; // Name similarity for 'min_similarity'
+}
+
+const SINGLE_LINKAGE: ClusterOptions = { linkage: 'single', threshold: 0 };
+
+/**
+ * Disjoint-set forest with path compression and union by size
+ */
+class UnionFind {
+  private readonly parent = new Map<string, string>();
+  private readonly size = new Map<string, number>();
+
+  find(x: string): string {
+    if (!this.parent.has(x)) {
+      this.parent.set(x, x);
+      this.size.set(x, 1);
+      return x;
+    }
+    let root = x;
+    while (this.parent.get(root) !== root) root = this.parent.get(root) as string;
+    // path compression
+    let node = x;
+    while (node !== root) {
+      const next = this.parent.get(node) as string;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    let rootA = this.find(a);
+    let rootB = this.find(b);
+    if (rootA === rootB) return;
+    if ((this.size.get(rootA) as number) < (this.size.get(rootB) as number)) {
+      [rootA, rootB] = [rootB, rootA];
+    }
+    this.parent.set(rootB, rootA);
+    this.size.set(rootA, (this.size.get(rootA) as number) + (this.size.get(rootB) as number));
+  }
+}
+
+/**
+ * Key for an unordered pair of names
+ */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+}
+
+/**
+ * Collapses matches found from both directions (A->B and B->A) into one
+ * edge per pair, keeping the more confident one.
+ */
+export function dedupeEdges(matches: CompanyMatch[]): CompanyMatch[] {
+  const best = new Map<string, CompanyMatch>();
+  for (const match of matches) {
+    const key = pairKey(match.original, match.candidate);
+    const existing = best.get(key);
+    if (!existing || match.confidence > existing.confidence) best.set(key, match);
+  }
+  return Array.from(best.values());
+}
+
+/**
+ * Groups names into clusters using the given linkage. Only clusters with at
+ * least two members are returned, sorted by their first member.
+ */
+export function clusterMatches(matches: CompanyMatch[], options: ClusterOptions = SINGLE_LINKAGE): MatchCluster[] {
+  const edges = dedupeEdges(matches).sort(
+    (a, b) => b.confidence - a.confidence || compareStrings(pairKey(a.original, a.candidate), pairKey(b.original, b.candidate))
+  );
+  const confidences = new Map(edges.map(e => [pairKey(e.original, e.candidate), e.confidence]));
+  const matchScore = (a: string, b: string) => confidences.get(pairKey(a, b)) ?? 0;
+  const pairScore = options.linkage === 'min_similarity' && options.similarity ? options.similarity : matchScore;
+
+  const uf = new UnionFind();
+  const membersByRoot = new Map<string, string[]>();
+  for (const edge of edges) {
+    const rootA = uf.find(edge.original);
+    const rootB = uf.find(edge.candidate);
+    if (rootA === rootB) continue;
+
+    const membersA = membersByRoot.get(rootA) ?? [edge.original];
+    const membersB = membersByRoot.get(rootB) ?? [edge.candidate];
+    if (options.linkage !== 'single' && linkageScore(membersA, membersB, pairScore, options.linkage) < options.threshold) {
+      continue;
+    }
+
+    uf.union(rootA, rootB);
+    membersByRoot.delete(rootA);
+    membersByRoot.delete(rootB);
+    membersByRoot.set(uf.find(rootA), [...membersA, ...membersB]);
+  }
+
+  const edgesByRoot = new Map<string, CompanyMatch[]>();
+  for (const edge of edges) {
+    const root = uf.find(edge.original);
+    if (root !== uf.find(edge.candidate)) continue; // rejected by linkage
+    const list = edgesByRoot.get(root);
+    if (list) list.push(edge);
+    else edgesByRoot.set(root, [edge]);
+  }
+
+  const clusters: MatchCluster[] = [];
+  for (const [root, clusterEdges] of edgesByRoot) {
+    const members = [...(membersByRoot.get(root) as string[])].sort();
+    clusterEdges.sort((a, b) => compareStrings(pairKey(a.original, a.candidate), pairKey(b.original, b.candidate)));
+    clusters.push({ members, edges: clusterEdges, cohesion: calculateCohesion(members, matchScore) });
+  }
+  return clusters.sort((a, b) => compareStrings(a.members[0], b.members[0]));
+}
+
+/**
+ * Linkage score between two clusters: the mean ('average') or the minimum
+ * ('complete', 'min_similarity') of the pair scores across them.
+ */
+function linkageScore(
+  membersA: string[],
+  membersB: string[],
+  pairScore: (a: string, b: string) => number,
+  linkage: ClusterLinkage
+): number {
+  let sum = 0;
+  let min = 1;
+  for (const a of membersA) {
+    for (const b of membersB) {
+      const score = pairScore(a, b);
+      sum += score;
+      if (score < min) min = score;
+    }
+  }
+  return linkage === 'average' ? sum / (membersA.length * membersB.length) : min;
+}
+
+/**
+ * Mean match confidence over every pair of members; pairs that never
+ * matched directly count as 0, so chained clusters score low.
+ */
+function calculateCohesion(members: string[], matchScore: (a: string, b: string) => number): number {
+  let sum = 0;
+  let pairs = 0;
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      sum += matchScore(members[i], members[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? Number((sum / pairs).toFixed(3)) : 1;
+}
+
+/**
+ * Returns `match` oriented so that `candidate` is its candidate side
+ */
+export function orientMatch(match: CompanyMatch, candidate: string): CompanyMatch {
+  if (match.candidate === candidate) return match;
+  return {
+    ...match,
+    original: match.candidate,
+    candidate: match.original,
+    normalizedOriginal: match.normalizedCandidate,
+    normalizedCandidate: match.normalizedOriginal,
+    originalSource: match.candidateSource,
+    candidateSource: match.originalSource,
+    ...(match.explanation && {
+      explanation: { ...match.explanation, original: match.explanation.candidate, candidate: match.explanation.original }
+    })
+  };
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,99 @@
+/**
+ * Pair explanations – answers "why weren't these two merged?" by replaying
+ * blocking, every matching layer and the result cutoffs for one pair.
+ */
+
+import { DeduplicationConfig, PairExplanation, PreparedCompany } from '../types';
+import {
+  MatchOptions,
+  createDefaultLayers,
+  findAllMatches,
+  scorePair,
+  toPrepared
+} from './matcher';
+import { normalizeCompanyNameWithTrace, isSiblingOffice } from './normalizer';
+import { BlockingIndex } from './blocking';
+import { buildTokenIdf } from './idf';
+
+/**
+ * Optional inputs for explainPair
+ */
+export interface ExplainOptions extends MatchOptions {
+  candidates?: Array<string | PreparedCompany>; // The rest of the list, to rank the pair against
+}
+
+/**
+ * Explains whether findAllMatches would report `candidate` for `original`.
+ * Without `candidates` the pair is judged on its own; with them blocking,
+ * token weights and the maxResultsPerCompany rank follow that whole list,
+ * ranking the pair among the blocked candidates the way findDuplicates does.
+ */
+export function explainPair(
+  original: string | PreparedCompany,
+  candidate: string | PreparedCompany,
+  config: DeduplicationConfig,
+  options: ExplainOptions = {}
+): PairExplanation {
+  const a = toPrepared(original, config);
+  const b = toPrepared(candidate, config);
+  const others = (options.candidates ?? [])
+    .map(c => toPrepared(c, config))
+    .filter(c => c.raw !== a.raw && c.raw !== b.raw);
+  const all = [a, b, ...others];
+  const idf = options.idf ?? buildTokenIdf(all);
+  const layers = (options.layers ?? createDefaultLayers()).filter(layer => layer.enabled !== false);
+
+  const pair = scorePair(a, b, layers, { config, idf });
+  // the candidates findDuplicates would hand to the layers: unmatchable names are never indexed
+  const matchable = all.filter(c => c.degenerate !== 'unmatchable');
+  const candidates = config.useBlocking ? new BlockingIndex(matchable, config).candidatesFor(a) : matchable.filter(c => c !== a);
+  const compared = candidates.includes(b);
+  const ranked = findAllMatches(a, candidates, { ...config, maxResultsPerCompany: Infinity, explainMatches: false }, { idf, layers });
+  const position = ranked.findIndex(m => m.candidate === b.raw);
+  const rank = position === -1 ? null : position + 1;
+  const confidence = pair.match?.confidence ?? 0;
+
+  let matched = false;
+  let reason: string;
+  if (a.raw === b.raw) {
+    reason = 'identical names are not compared';
+  } else if (a.degenerate === 'unmatchable' || b.degenerate === 'unmatchable') {
+    reason = `unmatchable: ${a.degenerate === 'unmatchable' ? a.raw : b.raw} has too little information once normalized`;
+  } else if (!compared) {
+    reason = 'never compared: the names share no blocking key';
+  } else if (!pair.match && pair.conflicts.length > 0) {
+    reason = `vetoed by ${pair.conflicts.join(', ')}`;
+  } else if (!pair.match) {
+    reason = config.scoringMode === 'best' ? 'no layer reached its threshold' : 'composite score is 0';
+  } else if (confidence < config.minConfidenceScore) {
+    reason = `confidence ${pct(confidence)} is below minConfidenceScore ${pct(config.minConfidenceScore)}`;
+  } else if (rank !== null && rank > config.maxResultsPerCompany) {
+    reason = `ranked ${rank}, beyond maxResultsPerCompany ${config.maxResultsPerCompany}`;
+  } else {
+    matched = true;
+    reason = `matched by ${pair.match.method} at ${pct(confidence)}`;
+    if (config.geographicMode === 'report_separately' && isSiblingOffice(a.normalized, b.normalized, config.geographicTerms)) {
+      reason += ', reported as sibling offices rather than duplicates';
+    }
+  }
+
+  return {
+    original: normalizeCompanyNameWithTrace(a.raw, config),
+    candidate: normalizeCompanyNameWithTrace(b.raw, config),
+    layers: pair.layers,
+    scoringMode: config.scoringMode,
+    method: pair.match?.method ?? null,
+    confidence,
+    conflicts: pair.conflicts,
+    compared,
+    minConfidenceScore: config.minConfidenceScore,
+    rank,
+    maxResultsPerCompany: config.maxResultsPerCompany,
+    matched,
+    reason
+  };
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
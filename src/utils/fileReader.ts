@@ -5,19 +5,28 @@
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { resolve, dirname } from 'path';
+import { CompanyRecord } from '../types';
 
 /**
  * Read a text file and return an array of non-empty, trimmed lines.
  */
 export function readCompanyNamesFromFile(filePath: string): string[] {
+  return readCompanyRecordsFromFile(filePath).map(r => r.name);
+}
+
+/**
+ * Read a text file and return its non-empty, trimmed lines together with
+ * their 1-based line numbers (blank lines still count towards numbering).
+ */
+export function readCompanyRecordsFromFile(filePath: string): CompanyRecord[] {
   const abs = resolve(filePath);
   if (!existsSync(abs)) throw new Error(`Input file not found: ${abs}`);
 
   const content = readFileSync(abs, 'utf8');
   return content
     .split(/\r?\n/)        // handle LF and CRLF
-    .map(line => line.trim())
-    .filter(Boolean);       // drop empty lines
+    .map((line, i) => ({ name: line.trim(), line: i + 1 }))
+    .filter(r => r.name);   // drop empty lines
 }
 
 /**
@@ -0,0 +1,77 @@
+/**
+ * Parent/subsidiary hierarchy from containment – "Ubisoft" is contained in
+ * "Ubisoft Montreal", so the latter is modelled as an entity under the
+ * former instead of an undirected duplicate. Position decides the direction:
+ * words after the contained name qualify it (a studio of "Ubisoft"), words
+ * before it name its owner ("Santa Monica" is a brand of "Sony Santa Monica").
+ */
+
+import { HierarchyNode, MatchRelation, PreparedCompany } from '../types';
+
+/**
+ * True if the tokens of `shorter` appear as a contiguous run in `longer`
+ * (both normalized) and the names differ
+ */
+export function isContainedIn(shorter: string, longer: string): boolean {
+  if (!shorter || shorter.length >= longer.length) return false;
+  return ` ${longer} `.includes(` ${shorter} `);
+}
+
+/**
+ * True if `parent` is the parent of `child` (both normalized): a name is the
+ * parent of longer names starting with it ("ubisoft" / "ubisoft montreal")
+ * and of shorter names it contains anywhere else ("sony santa monica" /
+ * "santa monica")
+ */
+export function isParentOf(parent: string, child: string): boolean {
+  if (isContainedIn(parent, child)) return child.startsWith(`${parent} `);
+  if (isContainedIn(child, parent)) return !parent.startsWith(`${child} `);
+  return false;
+}
+
+/**
+ * Parent/child direction of a pair, or null when neither name contains the other
+ */
+export function findRelation(a: PreparedCompany, b: PreparedCompany): MatchRelation | null {
+  if (isParentOf(a.normalized, b.normalized)) return { parent: a.raw, child: b.raw };
+  if (isParentOf(b.normalized, a.normalized)) return { parent: b.raw, child: a.raw };
+  return null;
+}
+
+/**
+ * Builds the forest of a group's members. Members with the same normalized
+ * name share one node (the first spelling, the rest as aliases); each node
+ * hangs under its most specific parent (closest in length, see isParentOf),
+ * and nodes without one are roots. `normalized` maps a member to its
+ * normalized name.
+ */
+export function buildHierarchy(members: string[], normalized: (name: string) => string): HierarchyNode[] {
+  const nodes = new Map<string, HierarchyNode>();
+  for (const name of [...members].sort()) {
+    const node = nodes.get(normalized(name));
+    if (node) node.aliases.push(name);
+    else nodes.set(normalized(name), { name, aliases: [], children: [] });
+  }
+
+  const keys = [...nodes.keys()];
+  const parentOf = new Map<string, string>();
+  // a parent may sit above or below its child in length, so skip parents that would close a cycle
+  const isAncestor = (key: string, of: string | undefined): boolean =>
+    of !== undefined && (of === key || isAncestor(key, parentOf.get(of)));
+  for (const key of keys) {
+    const distance = (p: string) => Math.abs(p.length - key.length);
+    const parent = keys
+      .filter(p => isParentOf(p, key))
+      .sort((a, b) => distance(a) - distance(b) || (a < b ? -1 : a > b ? 1 : 0))
+      .find(p => !isAncestor(key, p));
+    if (parent !== undefined) parentOf.set(key, parent);
+  }
+
+  const roots: HierarchyNode[] = [];
+  nodes.forEach((node, key) => {
+    const parent = parentOf.get(key);
+    if (parent !== undefined) (nodes.get(parent) as HierarchyNode).children.push(node);
+    else roots.push(node);
+  });
+  return roots;
+}
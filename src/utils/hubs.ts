@@ -0,0 +1,55 @@
+/**
+ * Hub detection – generic entries ("Studio", "Games Inc") match dozens of
+ * unrelated names and chain them into one group. A hub is a name whose
+ * match degree is an outlier for the list.
+ */
+
+import { CompanyMatch } from '../types';
+import { pairKey } from './clustering';
+
+/**
+ * Options for findHubs
+ */
+export interface HubOptions {
+  minDegree: number;                // Never a hub below this degree
+  stdDevFactor: number;             // Hub if degree > mean + factor · standard deviation
+}
+
+/**
+ * Number of distinct names each name matched, counting a pair found from
+ * both directions once
+ */
+export function matchDegrees(matches: CompanyMatch[]): Map<string, number> {
+  const degrees = new Map<string, number>();
+  const seen = new Set<string>();
+  for (const match of matches) {
+    const key = pairKey(match.original, match.candidate);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    degrees.set(match.original, (degrees.get(match.original) ?? 0) + 1);
+    degrees.set(match.candidate, (degrees.get(match.candidate) ?? 0) + 1);
+  }
+  return degrees;
+}
+
+/**
+ * Names whose degree is at least `minDegree` and above mean + factor · σ of
+ * the degrees of all `names` (unmatched names count as 0). Sorted by degree,
+ * highest first.
+ */
+export function findHubs(
+  names: string[],
+  degrees: Map<string, number>,
+  options: HubOptions
+): Array<{ name: string; degree: number }> {
+  if (names.length === 0) return [];
+  const values = names.map(name => degrees.get(name) ?? 0);
+  const mean = values.reduce((sum, d) => sum + d, 0) / values.length;
+  const stdDev = Math.sqrt(values.reduce((sum, d) => sum + (d - mean) ** 2, 0) / values.length);
+  const cutoff = mean + options.stdDevFactor * stdDev;
+
+  return names
+    .map((name, i) => ({ name, degree: values[i] }))
+    .filter(h => h.degree >= options.minDegree && h.degree > cutoff)
+    .sort((a, b) => b.degree - a.degree || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
@@ -0,0 +1,50 @@
+/**
+ * Corpus statistics for weighted token matching
+ *
+ * Tokens shared by many names in the input ("studio", "games") say little
+ * about identity; rare ones ("ubisoft") say a lot. Inverse document
+ * frequency, computed over the list being deduplicated, captures that.
+ */
+
+import { PreparedCompany, TokenIdf } from '../types';
+
+/**
+ * Smoothed IDF over the token sets of `companies`:
+ * idf(t) = ln((N + 1) / (df(t) + 1)) + 1
+ * Tokens never seen in the corpus get the weight of a token with df = 0.
+ */
+export function buildTokenIdf(companies: PreparedCompany[]): TokenIdf {
+  const documentFrequency = new Map<string, number>();
+  for (const company of companies) {
+    for (const token of company.tokens) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  const n = companies.length;
+  const weights = new Map<string, number>();
+  documentFrequency.forEach((df, token) => weights.set(token, Math.log((n + 1) / (df + 1)) + 1));
+
+  return { documents: n, weights, unseenWeight: Math.log(n + 1) + 1 };
+}
+
+/**
+ * Weighted Jaccard of two token sets: IDF mass of the shared tokens divided
+ * by the IDF mass of all tokens
+ */
+export function calculateWeightedTokenOverlap(tokens1: Set<string>, tokens2: Set<string>, idf: TokenIdf): number {
+  const weight = (token: string) => idf.weights.get(token) ?? idf.unseenWeight;
+
+  let shared = 0;
+  let total = 0;
+  for (const token of tokens1) {
+    const w = weight(token);
+    total += w;
+    if (tokens2.has(token)) shared += w;
+  }
+  for (const token of tokens2) {
+    if (!tokens1.has(token)) total += weight(token);
+  }
+
+  return total > 0 ? shared / total : 0;
+}
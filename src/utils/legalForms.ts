@@ -0,0 +1,52 @@
+/**
+ * Legal forms by jurisdiction – the company-type designators that follow a
+ * name ("Siemens AG", "Renault S.A.", "Sony K.K."). Forms are written the
+ * way they appear in the wild; the normalizer matches them after its own
+ * punctuation and accent handling, so dotted and multi-word forms
+ * ("S.à r.l.", "Sp. z o.o.") need no special casing here.
+ */
+
+import { LegalFormJurisdiction } from '../types';
+
+export const LEGAL_FORMS: Record<LegalFormJurisdiction, string[]> = {
+  international: ['SE', 'S.E.', 'EEIG', 'SCE'],
+  us: ['Inc', 'Incorporated', 'Corp', 'Corporation', 'Co', 'Company', 'LLC', 'L.L.C.', 'LLP', 'L.P.', 'PLLC'],
+  gb: ['Ltd', 'Limited', 'PLC', 'LLP', 'CIC', 'Public Limited Company', 'Limited Liability Partnership', 'Limited Liability Company'],
+  ca: ['Inc', 'Ltd', 'Corp', 'ULC', 'Ltée', 'Limitée'],
+  au: ['Pty Ltd', 'Pty. Ltd.', 'Pty Limited', 'Pty', 'Ltd'],
+  nz: ['Ltd', 'Limited'],
+  in: ['Pvt Ltd', 'Pvt. Ltd.', 'Private Limited', 'LLP'],
+  de: ['GmbH', 'AG', 'KG', 'OHG', 'GbR', 'UG', 'UG (haftungsbeschränkt)', 'GmbH & Co. KG', 'AG & Co. KG', 'KGaA', 'e.V.'],
+  at: ['GmbH', 'Ges.m.b.H.', 'GesmbH', 'AG', 'KG'],
+  ch: ['AG', 'GmbH', 'SA', 'Sàrl', 'S.à r.l.', 'SAGL'],
+  fr: ['SA', 'S.A.', 'SAS', 'S.A.S.', 'SASU', 'SARL', 'S.A.R.L.', 'S.à r.l.', 'EURL', 'SNC', 'SCA'],
+  be: ['NV', 'N.V.', 'BV', 'B.V.', 'BVBA', 'SA', 'SRL', 'SPRL', 'VZW', 'ASBL'],
+  lu: ['S.A.', 'SA', 'S.à r.l.', 'SARL', 'SCS', 'SCA'],
+  nl: ['B.V.', 'BV', 'N.V.', 'NV', 'V.O.F.', 'VOF', 'C.V.'],
+  es: ['S.A.', 'SA', 'S.L.', 'SL', 'S.L.U.', 'SLU', 'S.A.U.', 'S. Coop.'],
+  it: ['S.p.A.', 'SpA', 'S.r.l.', 'Srl', 'S.r.l.s.', 'S.a.s.', 'S.n.c.'],
+  pt: ['Lda', 'Lda.', 'Limitada', 'S.A.'],
+  br: ['Ltda', 'Ltda.', 'S.A.', 'EIRELI'],
+  mx: ['S.A. de C.V.', 'S. de R.L. de C.V.', 'S.A.B. de C.V.', 'S.A.'],
+  se: ['AB', 'Aktiebolag', 'AB (publ)', 'HB', 'KB'],
+  no: ['AS', 'ASA', 'ANS'],
+  dk: ['A/S', 'ApS', 'I/S', 'P/S', 'IVS'],
+  fi: ['Oy', 'Oyj', 'Oy Ab', 'Ab', 'Ky', 'Tmi'],
+  pl: ['Sp. z o.o.', 'Sp. z o. o.', 'S.A.', 'Sp.j.', 'Sp.k.', 'S.K.A.'],
+  cz: ['s.r.o.', 'spol. s r.o.', 'a.s.', 'v.o.s.', 'k.s.'],
+  ru: ['OOO', 'OAO', 'ZAO', 'PAO', 'AO'],
+  jp: ['K.K.', 'KK', 'Kabushiki Kaisha', 'G.K.', 'Godo Kaisha', 'Y.K.', 'Yugen Kaisha', 'Co., Ltd.'],
+  cn: ['Co., Ltd.', 'Co. Ltd', 'Limited', 'Ltd'],
+  kr: ['Co., Ltd.', 'Inc.', 'Corp.']
+};
+
+/**
+ * Single-word forms that are also everyday words or name endings ("Tell Me
+ * As", "Casa", "Bo Ky"). They only count as legal forms when the name writes
+ * them upper-case ("Equinor AS", "Volvo AB"); dotted spellings ("S.A.") are
+ * separate, unambiguous entries.
+ */
+export const WORD_LIKE_LEGAL_FORMS = ['as', 'se', 'ab', 'ky', 'ao', 'sa'];
+
+/** Every jurisdiction in the dictionary */
+export const LEGAL_FORM_JURISDICTIONS = Object.keys(LEGAL_FORMS) as LegalFormJurisdiction[];
@@ -5,15 +5,28 @@
 import {
   DeduplicationConfig,
   CompanyMatch,
-  MatchMethod
+  MatchMethod,
+  PreparedCompany,
+  Initialism,
+  TokenIdf,
+  NgramMetric,
+  MatchLayer,
+  MatchContext,
+  LayerScore,
+  MatchExplanation
 } from '../types';
 
 import {
-  normalizeCompanyName,
-  calculateTokenOverlap,
-  extractTokens
+  prepareCompany,
+  normalizeCompanyNameWithTrace,
+  isLikelyGeographicVariant,
+  calculateTokenSetOverlap
 } from './normalizer';
 
+import { buildTokenIdf, calculateWeightedTokenOverlap } from './idf';
+import { encodePhonetic } from './phonetic';
+import { findRelation } from './hierarchy';
+
 /**********************
  * Helper algorithms  *
  **********************/
@@ -57,114 +70,366 @@ export function calculateSimilarity(a: string, b: string): number {
   return (maxLen - distance) / maxLen;
 }
 
+/**
+ * Jaro similarity (0-1): share of matching characters within a sliding
+ * window, corrected for transpositions. (https://en.wikipedia.org/wiki/Jaro%E2%80%93Winkler_distance)
+ */
+export function calculateJaroSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const from = Math.max(0, i - window);
+    const to = Math.min(b.length - 1, i + window);
+    for (let j = from; j <= to; j++) {
+      if (!matchedB[j] && a[i] === b[j]) {
+        matchedA[i] = matchedB[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  // Count matched characters that appear in a different order
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue;
+    while (!matchedB[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+}
+
+/**
+ * Jaro-Winkler similarity (0-1): Jaro boosted by the length of the common
+ * prefix (up to 4 characters), which favours short names that agree at the start.
+ */
+export function calculateJaroWinkler(a: string, b: string, prefixScale = 0.1): number {
+  const jaro = calculateJaroSimilarity(a, b);
+  let prefix = 0;
+  const maxPrefix = Math.min(4, a.length, b.length);
+  while (prefix < maxPrefix && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * prefixScale * (1 - jaro);
+}
+
+/**
+ * Tokens shorter than this must agree exactly in the Jaro-Winkler layer: one
+ * typo changes a quarter of "Sony", yet "Soy" still scores 0.93.
+ */
+const JARO_WINKLER_MIN_TOKEN_LENGTH = 5;
+
+/**
+ * Jaro-Winkler similarity of two normalized names word by word: the names
+ * need the same number of tokens and score as their least similar pair, so
+ * a long shared first word cannot carry a different second one ("Deutsche
+ * Bank" / "Deutsche Bahn").
+ */
+export function calculateTokenJaroWinkler(a: string, b: string): number {
+  const wordsA = a.split(' ');
+  const wordsB = b.split(' ');
+  if (wordsA.length !== wordsB.length) return 0;
+
+  let lowest = 1;
+  for (let i = 0; i < wordsA.length && lowest > 0; i++) {
+    const [wordA, wordB] = [wordsA[i], wordsB[i]];
+    if (wordA === wordB) continue;
+    const score = Math.min(wordA.length, wordB.length) < JARO_WINKLER_MIN_TOKEN_LENGTH ? 0 : calculateJaroWinkler(wordA, wordB);
+    lowest = Math.min(lowest, score);
+  }
+  return lowest;
+}
+
+/**
+ * Similarity (0-1) of two n-gram count profiles: cosine of the count vectors
+ * or Dice coefficient (2·shared / total).
+ */
+export function calculateNgramSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  metric: NgramMetric = 'cosine'
+): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let dot = 0;
+  let shared = 0;
+  a.forEach((countA, gram) => {
+    const countB = b.get(gram);
+    if (countB) {
+      dot += countA * countB;
+      shared += Math.min(countA, countB);
+    }
+  });
+
+  if (metric === 'dice') {
+    const total = sumCounts(a) + sumCounts(b);
+    return (2 * shared) / total;
+  }
+  const norm = (m: Map<string, number>) => Math.sqrt(Array.from(m.values()).reduce((sum, c) => sum + c * c, 0));
+  return Math.min(1, dot / (norm(a) * norm(b)));
+}
+
+function sumCounts(grams: Map<string, number>): number {
+  let total = 0;
+  grams.forEach(c => (total += c));
+  return total;
+}
+
 /****************
  * Matching layers - We're using a layered approach.
- * Starting with exact matches, then very high similarity, then word matches, and finally partial matches.    *
+ * Starting with exact matches, then very high similarity, then word matches, and finally partial matches.
+ * Each layer is a MatchLayer: a score function (0-1) plus the threshold a
+ * pair must reach. Callers can pass their own list to findAllMatches, or
+ * manage one through CompanyDeduplicator's layer registry.
  ***************/
 
-function findHighSimilarityMatches(
-  original: string,
-  candidates: string[],
-  config: DeduplicationConfig
-): CompanyMatch[] {
-  const normalizedOriginal = normalizeCompanyName(original, config);
-  const results: CompanyMatch[] = [];
-
-  for (const candidate of candidates) {
-    if (candidate === original) continue;
-    const normalizedCandidate = normalizeCompanyName(candidate, config);
-    const score = calculateSimilarity(normalizedOriginal, normalizedCandidate);
-    if (score >= config.highSimilarityThreshold) {
-      results.push(makeMatch(original, candidate, normalizedOriginal, normalizedCandidate, score, 'high_similarity'));
-    }
+/**
+ * Phonetic codes only say two names *sound* alike, so even a full overlap is
+ * reported below an exact match.
+ */
+const PHONETIC_CONFIDENCE_CAP = 0.85;
+
+/**
+ * Metaphone drops vowels, so short words with the same consonants share a
+ * code ("Nike" / "Nokia", "Sega" / "Saga"). Two tokens only sound alike when
+ * their spellings are also close on Jaro-Winkler: `phoneticMinSimilarity`
+ * for four letters, proportionally less for longer tokens ("Kwality" /
+ * "Quality" differ in two of seven letters), more for shorter ones.
+ */
+const PHONETIC_REFERENCE_LENGTH = 4;
+const PHONETIC_MAX_SCALED_LENGTH = 8;
+
+function phoneticSpellingFloor(length: number, config: DeduplicationConfig): number {
+  const scale = Math.min(length, PHONETIC_MAX_SCALED_LENGTH) / PHONETIC_REFERENCE_LENGTH;
+  return 1 - (1 - config.phoneticMinSimilarity) * scale;
+}
+
+/**
+ * Jaccard overlap of two token sets where a token also pairs with a
+ * differently spelled one of the same phonetic code and a close spelling
+ */
+function calculateSoundAlikeOverlap(a: PreparedCompany, b: PreparedCompany, config: DeduplicationConfig): number {
+  if (calculateTokenSetOverlap(a.phoneticCodes, b.phoneticCodes) === 0) return 0;
+
+  const unpaired = Array.from(b.tokens, token => ({ token, code: encodePhonetic(token, config.phoneticAlgorithm) }));
+  let paired = 0;
+  for (const token of a.tokens) {
+    const code = encodePhonetic(token, config.phoneticAlgorithm);
+    const index = unpaired.findIndex(other =>
+      other.token === token ||
+      (other.code === code &&
+        calculateJaroWinkler(token, other.token) >= phoneticSpellingFloor(Math.min(token.length, other.token.length), config))
+    );
+    if (index === -1) continue;
+    unpaired.splice(index, 1);
+    paired++;
   }
-  return results;
+  const union = a.tokens.size + b.tokens.size - paired;
+  return union > 0 ? paired / union : 0;
 }
 
-function findTokenMatches(
-  original: string,
-  candidates: string[],
-  config: DeduplicationConfig
-): CompanyMatch[] {
-  const normalizedOriginal = normalizeCompanyName(original, config);
-  const results: CompanyMatch[] = [];
-
-  for (const candidate of candidates) {
-    if (candidate === original) continue;
-    const normalizedCandidate = normalizeCompanyName(candidate, config);
-    const overlap = calculateTokenOverlap(normalizedOriginal, normalizedCandidate);
-    if (overlap >= config.tokenMatchThreshold) {
-      results.push(makeMatch(original, candidate, normalizedOriginal, normalizedCandidate, overlap, 'token_match'));
-    }
+/**
+ * Confidence of an acronym match by how the initialism was built: using
+ * every word is strong evidence, leaving words out weakens it. Two-letter
+ * acronyms ("EA") are ambiguous and are scaled down further.
+ */
+const ACRONYM_CONFIDENCE: Record<Initialism['skipped'], number> = {
+  none: 0.9,
+  stopwords: 0.85,
+  suffixes: 0.8
+};
+const SHORT_ACRONYM_FACTOR = 0.9;
+
+function acronymConfidence(acronym: string | null, initialisms: Initialism[]): number {
+  if (!acronym) return 0;
+  let best = 0;
+  for (const initialism of initialisms) {
+    if (initialism.value === acronym) best = Math.max(best, ACRONYM_CONFIDENCE[initialism.skipped]);
   }
-  return results;
+  return acronym.length === 2 ? best * SHORT_ACRONYM_FACTOR : best;
 }
 
-function findPartialMatches(
-  original: string,
-  candidates: string[],
-  config: DeduplicationConfig
-): CompanyMatch[] {
-  const normalizedOriginal = normalizeCompanyName(original, config);
-  const results: CompanyMatch[] = [];
+/**
+ * Two offices of one company are related, not identical, so geographic
+ * variants are reported at a fixed confidence below a near-identical spelling.
+ */
+const GEOGRAPHIC_CONFIDENCE = 0.85;
+
+const exactLayer: MatchLayer = {
+  name: 'exact_after_normalization',
+  score: (a, b) => (a.normalized === b.normalized ? 1 : 0),
+  threshold: 1
+};
 
-  for (const candidate of candidates) {
-    if (candidate === original) continue;
-    const normalizedCandidate = normalizeCompanyName(candidate, config);
+const highSimilarityLayer: MatchLayer = {
+  name: 'high_similarity',
+  score: (a, b) => calculateSimilarity(a.normalized, b.normalized),
+  threshold: config => config.highSimilarityThreshold
+};
 
+const jaroWinklerLayer: MatchLayer = {
+  name: 'jaro_winkler',
+  score: (a, b) => calculateTokenJaroWinkler(a.normalized, b.normalized),
+  threshold: config => config.jaroWinklerThreshold
+};
+
+const tokenLayer: MatchLayer = {
+  name: 'token_match',
+  score: (a, b) => calculateTokenSetOverlap(a.tokens, b.tokens),
+  threshold: config => config.tokenMatchThreshold
+};
+
+const weightedTokenLayer: MatchLayer = {
+  name: 'weighted_token_match',
+  score: (a, b, { idf }) => calculateWeightedTokenOverlap(a.tokens, b.tokens, idf),
+  threshold: config => config.weightedTokenMatchThreshold
+};
+
+const phoneticLayer: MatchLayer = {
+  name: 'phonetic_match',
+  score: (a, b, { config }) =>
+    config.phoneticMatching ? calculateSoundAlikeOverlap(a, b, config) * PHONETIC_CONFIDENCE_CAP : 0,
+  threshold: config => config.phoneticMatchThreshold * PHONETIC_CONFIDENCE_CAP
+};
+
+const acronymLayer: MatchLayer = {
+  name: 'acronym_match',
+  score: (a, b, { config }) =>
+    config.acronymMatching
+      ? Math.max(acronymConfidence(a.acronym, b.initialisms), acronymConfidence(b.acronym, a.initialisms))
+      : 0,
+  threshold: 0
+};
+
+const ngramLayer: MatchLayer = {
+  name: 'ngram_similarity',
+  score: (a, b, { config }) => calculateNgramSimilarity(a.ngrams, b.ngrams, config.ngramMetric),
+  threshold: config => config.ngramThreshold
+};
+
+const partialLayer: MatchLayer = {
+  name: 'partial_match',
+  score: (a, b) => {
     // Check substring relationship
-    const shorter = normalizedOriginal.length <= normalizedCandidate.length ? normalizedOriginal : normalizedCandidate;
-    const longer = shorter === normalizedOriginal ? normalizedCandidate : normalizedOriginal;
+    const shorter = a.length <= b.length ? a : b;
+    const longer = shorter === a ? b : a;
+    return longer.normalized.includes(shorter.normalized) && longer.length > 0 ? shorter.length / longer.length : 0;
+  },
+  threshold: config => config.partialMatchThreshold
+};
 
-    if (longer.includes(shorter)) {
-      const confidence = shorter.length / longer.length;
-      if (confidence >= config.partialMatchThreshold) {
-        results.push(makeMatch(original, candidate, normalizedOriginal, normalizedCandidate, confidence, 'partial_match'));
-      }
-    }
-  }
-  return results;
+const geographicLayer: MatchLayer = {
+  name: 'geographic_variant',
+  score: (a, b, { config }) =>
+    config.geographicMode !== 'ignore' && isLikelyGeographicVariant(a.normalized, b.normalized, config.geographicTerms)
+      ? GEOGRAPHIC_CONFIDENCE
+      : 0,
+  threshold: 0
+};
+
+/**
+ * The built-in layers in their default order. Earlier layers win ties.
+ */
+export function createDefaultLayers(): MatchLayer[] {
+  return [
+    exactLayer,
+    highSimilarityLayer,
+    jaroWinklerLayer,
+    tokenLayer,
+    weightedTokenLayer,
+    phoneticLayer,
+    acronymLayer,
+    ngramLayer,
+    partialLayer,
+    geographicLayer
+  ].map(layer => ({ ...layer }));
 }
 
-function findExactMatches(
-  original: string,
-  candidates: string[],
-  config: DeduplicationConfig
-): CompanyMatch[] {
-  const normalizedOriginal = normalizeCompanyName(original, config);
-  const results: CompanyMatch[] = [];
-
-  for (const candidate of candidates) {
-    if (candidate === original) continue;
-    const normalizedCandidate = normalizeCompanyName(candidate, config);
-    if (normalizedCandidate === normalizedOriginal) {
-      results.push(makeMatch(original, candidate, normalizedOriginal, normalizedCandidate, 1, 'exact_after_normalization'));
-    }
+/**
+ * Threshold of a layer under the given config
+ */
+export function resolveThreshold(layer: MatchLayer, config: DeduplicationConfig): number {
+  return typeof layer.threshold === 'function' ? layer.threshold(config) : layer.threshold;
+}
+
+/**
+ * Combines every layer's score into one confidence (0-1):
+ * 'weighted' is the weighted mean, 'logistic' is
+ * sigmoid(logisticBias + Σ weight·score). Layers missing from
+ * `layerWeights` weigh 1.
+ */
+export function calculateCompositeScore(scores: Record<string, number>, config: DeduplicationConfig): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const [name, score] of Object.entries(scores)) {
+    const weight = layerWeight(name, config);
+    weightedSum += weight * score;
+    totalWeight += weight;
   }
-  return results;
+  if (config.scoringMode === 'logistic') {
+    return 1 / (1 + Math.exp(-(config.logisticBias + weightedSum)));
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * Weight of a layer in composite scoring; layers not listed weigh 1
+ */
+function layerWeight(name: string, config: DeduplicationConfig): number {
+  return config.layerWeights[name] ?? 1;
+}
+
+/**
+ * Optional inputs for findAllMatches
+ */
+export interface MatchOptions {
+  idf?: TokenIdf;                   // Token statistics of the whole input list
+  layers?: MatchLayer[];            // Layers to run, in order (default: createDefaultLayers())
 }
 
 /**
  * Runs all matching layers and returns unique matches based on confidence order.
+ * In 'best' scoring mode a candidate takes the score of its strongest layer
+ * that passes its threshold (earlier layers win ties); the combined modes
+ * score every candidate with calculateCompositeScore and report each
+ * layer's score in `layerScores`. With `explainMatches` every match also
+ * carries an `explanation`. Names flagged unmatchable by the degenerate-name
+ * guard never match.
+ * Accepts raw names or records from prepareCompanies(); raw names are
+ * prepared here, so prepare up front when querying the same list repeatedly.
+ * `idf` should come from the whole input list (buildTokenIdf); without it the
+ * token weights are computed from the original and its candidates.
  */
 export function findAllMatches(
-  original: string,
-  candidates: string[],
-  config: DeduplicationConfig
+  original: string | PreparedCompany,
+  candidates: Array<string | PreparedCompany>,
+  config: DeduplicationConfig,
+  options: MatchOptions = {}
 ): CompanyMatch[] {
-  const combined: CompanyMatch[] = [];
-
-  combined.push(...findExactMatches(original, candidates, config));
-  combined.push(...findHighSimilarityMatches(original, candidates, config));
-  combined.push(...findTokenMatches(original, candidates, config));
-  combined.push(...findPartialMatches(original, candidates, config));
+  const preparedOriginal = toPrepared(original, config);
+  const preparedCandidates = candidates.map(c => toPrepared(c, config));
+  const context: MatchContext = {
+    config,
+    idf: options.idf ?? buildTokenIdf([preparedOriginal, ...preparedCandidates])
+  };
+  const layers = (options.layers ?? createDefaultLayers()).filter(layer => layer.enabled !== false);
 
   const bestMap = new Map<string, CompanyMatch>();
-  for (const match of combined) {
-    const existing = bestMap.get(match.candidate);
-    if (!existing || match.confidence > existing.confidence) {
-      bestMap.set(match.candidate, match);
-    }
+  if (preparedOriginal.degenerate === 'unmatchable') return [];
+  for (const candidate of preparedCandidates) {
+    if (candidate.raw === preparedOriginal.raw || bestMap.has(candidate.raw)) continue;
+    if (candidate.degenerate === 'unmatchable') continue;
+    const { match } = scorePair(preparedOriginal, candidate, layers, context);
+    if (match) bestMap.set(candidate.raw, match);
   }
 
   const unique = Array.from(bestMap.values())
@@ -175,20 +440,152 @@ export function findAllMatches(
   return unique;
 }
 
+/****************
+ * Negative evidence - rules that can outweigh any amount of similarity.
+ * Each returns true when the pair conflicts; the config decides whether a
+ * conflict vetoes the match or lowers its confidence.
+ ***************/
+
+/**
+ * Both names carry numbers and they differ: "FIFA 22" / "FIFA 23",
+ * "Studio 1" / "Studio 2". A number on one side only is not a conflict.
+ */
+export function hasNumericConflict(a: PreparedCompany, b: PreparedCompany): boolean {
+  if (a.numericTokens.size === 0 || b.numericTokens.size === 0) return false;
+  if (a.numericTokens.size !== b.numericTokens.size) return true;
+  for (const token of a.numericTokens) {
+    if (!b.numericTokens.has(token)) return true;
+  }
+  return false;
+}
+
+/**
+ * The names end in different industry descriptors: "Acme Games" / "Acme
+ * Software", and also "Acme Games" / "Acme" – the descriptor is left out of
+ * the comparison, but it is still a difference.
+ */
+export function hasDescriptorConflict(a: PreparedCompany, b: PreparedCompany): boolean {
+  if (a.descriptors.size !== b.descriptors.size) return true;
+  for (const descriptor of a.descriptors) {
+    if (!b.descriptors.has(descriptor)) return true;
+  }
+  return false;
+}
+
+/**
+ * Applies the negative-evidence rules to a match. Returns the names of the
+ * rules that fired and the match left over (null when vetoed).
+ */
+function applyNegativeEvidence(
+  match: CompanyMatch,
+  a: PreparedCompany,
+  b: PreparedCompany,
+  config: DeduplicationConfig
+): { match: CompanyMatch | null; conflicts: string[] } {
+  const conflicts: string[] = [];
+  let confidence = match.confidence;
+  if (config.numericConflictMode !== 'off' && hasNumericConflict(a, b)) {
+    if (config.numericConflictMode === 'veto') return { match: null, conflicts: ['numeric_conflict'] };
+    conflicts.push('numeric_conflict');
+    confidence *= 1 - config.numericConflictPenalty;
+  }
+  if (config.industryDescriptorMode === 'penalize' && hasDescriptorConflict(a, b)) {
+    conflicts.push('descriptor_conflict');
+    confidence *= 1 - config.industryDescriptorPenalty;
+  }
+  if (conflicts.length === 0) return { match, conflicts };
+  return { match: { ...match, confidence: Number(confidence.toFixed(3)) }, conflicts };
+}
+
+/**
+ * Outcome of every layer for one pair, and the match it produces before the
+ * minConfidenceScore / maxResultsPerCompany cutoffs (null if none)
+ */
+export interface PairScore {
+  match: CompanyMatch | null;
+  layers: Record<string, LayerScore>;
+  conflicts: string[];              // Negative-evidence rules that fired
+}
+
+/**
+ * Scores one pair with the given (enabled) layers under the config's
+ * scoring mode, then applies the negative-evidence rules
+ */
+export function scorePair(
+  original: PreparedCompany,
+  candidate: PreparedCompany,
+  layers: MatchLayer[],
+  context: MatchContext
+): PairScore {
+  const { config } = context;
+  const scores: Record<string, number> = {};
+  const outcomes: Record<string, LayerScore> = {};
+  let best: { score: number; method: MatchMethod } | null = null;
+  for (const layer of layers) {
+    const score = layer.score(original, candidate, context);
+    const threshold = resolveThreshold(layer, config);
+    const passed = score > 0 && score >= threshold;
+    scores[layer.name] = Number(score.toFixed(3));
+    // thresholds only decide anything under 'best' scoring
+    outcomes[layer.name] = config.scoringMode === 'best'
+      ? { score: scores[layer.name], threshold, passed }
+      : { score: scores[layer.name], weight: layerWeight(layer.name, config) };
+    if (passed && (!best || score > best.score)) best = { score, method: layer.name };
+  }
+
+  let match: CompanyMatch | null = null;
+  if (config.scoringMode === 'best') {
+    if (best) match = makeMatch(original, candidate, best.score, best.method);
+  } else {
+    const composite = calculateCompositeScore(scores, config);
+    if (composite > 0) match = { ...makeMatch(original, candidate, composite, 'composite'), layerScores: scores };
+  }
+  let conflicts: string[] = [];
+  if (match) ({ match, conflicts } = applyNegativeEvidence(match, original, candidate, config));
+  if (match && config.hierarchyMode) {
+    const relation = findRelation(original, candidate);
+    if (relation) match.relation = relation;
+  }
+  if (match && config.explainMatches) match.explanation = explainMatch(original, candidate, outcomes, conflicts, config);
+  return { match, layers: outcomes, conflicts };
+}
+
+/**
+ * Prepares raw names, passes prepared records through
+ */
+export function toPrepared(company: string | PreparedCompany, config: DeduplicationConfig): PreparedCompany {
+  return typeof company === 'string' ? prepareCompany(company, config) : company;
+}
+
+function explainMatch(
+  original: PreparedCompany,
+  candidate: PreparedCompany,
+  layers: Record<string, LayerScore>,
+  conflicts: string[],
+  config: DeduplicationConfig
+): MatchExplanation {
+  return {
+    layers,
+    conflicts,
+    original: normalizeCompanyNameWithTrace(original.raw, config),
+    candidate: normalizeCompanyNameWithTrace(candidate.raw, config)
+  };
+}
+
 function makeMatch(
-  original: string,
-  candidate: string,
-  normalizedOriginal: string,
-  normalizedCandidate: string,
+  original: PreparedCompany,
+  candidate: PreparedCompany,
   confidence: number,
   method: MatchMethod
 ): CompanyMatch {
   return {
-    original,
-    candidate,
+    original: original.raw,
+    candidate: candidate.raw,
     confidence: Number(confidence.toFixed(3)),
     method,
-    normalizedOriginal,
-    normalizedCandidate
+    normalizedOriginal: original.normalized,
+    normalizedCandidate: candidate.normalized,
+    ...(original.source && { originalSource: original.source }),
+    ...(candidate.source && { candidateSource: candidate.source })
   };
-} 
\ No newline at end of file
+}
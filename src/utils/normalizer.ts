@@ -2,19 +2,32 @@
  * Company name normalization utilities
  */
 
-import { DeduplicationConfig } from '../types';
+import {
+  DeduplicationConfig,
+  PreparedCompany,
+  SourceInfo,
+  Initialism,
+  NormalizationStep,
+  NormalizationTrace,
+  DegenerateHandling,
+  LegalFormJurisdiction
+} from '../types';
+import { phoneticCodes } from './phonetic';
+import { transliterate } from './transliterate';
+import { LEGAL_FORMS, LEGAL_FORM_JURISDICTIONS, WORD_LIKE_LEGAL_FORMS } from './legalForms';
 
-// well-known business suffixes to be removed
-const BUSINESS_SUFFIXES = [
-  'ltd', 'limited', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company',
-  'llc', 'limited liability company', 'plc', 'public limited company',
+// words that describe the line of business rather than name the company
+export const DEFAULT_INDUSTRY_DESCRIPTORS = [
   'studio', 'studios', 'games', 'entertainment', 'interactive', 'digital',
   'software', 'technologies', 'tech', 'systems', 'solutions', 'services',
   'group', 'holdings', 'ventures', 'partners', 'associates', 'enterprises'
 ];
 
+// words commonly left out of initialisms ("Bank of America" -> "BOA" / "BA")
+const ACRONYM_STOPWORDS = ['of', 'and', 'the', 'for', 'a', 'an', 'de', 'la', 'le', 'et', 'und', 'y'];
+
 // well-known geographic terms that might represent different offices
-const GEOGRAPHIC_TERMS = [
+export const DEFAULT_GEOGRAPHIC_TERMS = [
   'usa', 'us', 'america', 'american', 'canada', 'canadian', 'uk', 'britain', 'british',
   'europe', 'european', 'asia', 'asian', 'japan', 'japanese', 'china', 'chinese',
   'france', 'french', 'germany', 'german', 'italy', 'italian', 'spain', 'spanish',
@@ -27,80 +40,377 @@ const GEOGRAPHIC_TERMS = [
  * Normalize a company name for comparison
  */
 export function normalizeCompanyName(name: string, config: DeduplicationConfig): string {
-  let normalized = name.toLowerCase().trim();
+  return normalizeCompanyNameWithTrace(name, config).normalized;
+}
+
+/**
+ * Normalizes a company name and records every step that changed it
+ */
+export function normalizeCompanyNameWithTrace(name: string, config: DeduplicationConfig): NormalizationTrace {
+  const steps: NormalizationStep[] = [];
+  let normalized = name;
+  const apply = (step: NormalizationStep['step'], result: string) => {
+    if (result !== normalized) steps.push({ step, result });
+    normalized = result;
+  };
+
+  apply('normalize_unicode', normalizeUnicode(name));
+  apply('lowercase', caseFold(normalized, config.caseFoldLocale).trim());
+
+  if (config.transliterate) {
+    apply('transliterate', transliterate(normalized));
+  }
   
   if (config.handleAccents) {
-    normalized = removeAccents(normalized);
+    apply('remove_accents', removeAccents(normalized));
   }
   
   // Remove numbers if configured
   if (config.removeNumbers) {
-    normalized = normalized.replace(/\d+/g, '');
+    apply('remove_numbers', removeDigits(normalized));
   }
   
   // Remove special characters and extra whitespace
-  normalized = normalized
-    .replace(/[^\w\s]/g, ' ')
-    .replace(/\s+/g, ' ') 
-    .trim();
+  apply('remove_punctuation', removePunctuation(normalized));
   
-  // Remove common suffixes
+  // Remove legal forms, then industry descriptors, from the end
   if (config.removeSuffixes) {
-    normalized = removeSuffixes(normalized);
+    const words = removeLegalForms(normalized.split(' '), config.legalFormJurisdictions, rawWords(name, config.removeNumbers));
+    apply('remove_legal_forms', words.join(' '));
+  }
+  if (config.industryDescriptorMode !== 'keep') {
+    apply('remove_descriptors', splitDescriptors(normalized, config.industryDescriptors).name);
   }
   
-  return normalized;
+  return { input: name, steps, normalized };
 }
 
 /**
- * Removes accents from characters (é -> e, ñ -> n, etc.)
+ * NFKC compatibility normalization: full-width and half-width forms,
+ * ligatures and other presentation variants become their plain letters and
+ * digits ("ＳＯＮＹ" -> "SONY", "ｿﾆｰ" -> "ソニー"). Trademark signs would
+ * turn into letters ("™" -> "TM"), so they are dropped first.
+ */
+export function normalizeUnicode(text: string): string {
+  return text.replace(/[\u2120\u2122]/g, ' ').normalize('NFKC');
+}
+
+// letters NFD cannot take apart, spelled the way they are typed without them;
+// "ı" and final "ς" fold to their plain forms
+const CASE_FOLD_EXPANSIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ĳ: 'ij', ς: 'σ'
+};
+const CASE_FOLD_PATTERN = new RegExp(`[${Object.keys(CASE_FOLD_EXPANSIONS).join('')}]`, 'g');
+
+/**
+ * Full case folding: lowercases with the rules of `locale` (Turkish "İ" ->
+ * "i", "I" -> "ı"), or locale-independently when null, then expands the
+ * letters accent removal cannot handle ("Straße" -> "strasse", "Ærø" ->
+ * "aero"). Without a locale dotted and dotless i both become "i"; with one,
+ * "ı" stays the letter the locale made it.
+ */
+export function caseFold(text: string, locale: string | null = null): string {
+  const lower = locale
+    ? text.toLocaleLowerCase(locale)
+    : text.toLowerCase().replace(/i\u0307/g, 'i').replace(/ı/g, 'i');
+  return lower.replace(CASE_FOLD_PATTERN, ch => CASE_FOLD_EXPANSIONS[ch]);
+}
+
+/**
+ * Removes accents from characters (é -> e, ñ -> n, etc.). Only the Latin
+ * combining diacritics go; everything is recomposed afterwards so Hangul
+ * syllables and kana with voicing marks ("バ") come back whole.
  */
 export function removeAccents(text: string): string {
-  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
 }
 
 /**
- * Removes common business suffixes
+ * Replaces everything but letters, marks and digits of any script with
+ * spaces and collapses whitespace
  */
-export function removeSuffixes(text: string): string {
-  const words = text.split(' ');
-  const filtered = words.filter(word => {
-    return !BUSINESS_SUFFIXES.includes(word.toLowerCase());
-  });
-  
-  return filtered.join(' ').trim();
+function removePunctuation(text: string): string {
+  return text
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
 }
 
 /**
- * Extracts tokens (words) from a normalized company name
+ * Removes legal forms of the given jurisdictions from the end of a
+ * normalized name, then the industry descriptors before them
+ * ("ubisoft studios ltd" -> "ubisoft"). Words elsewhere in the name stay:
+ * "digital extremes" keeps its "digital". Without the raw spelling,
+ * word-like forms ("as", "sa") are kept.
  */
-export function extractTokens(normalizedName: string): string[] {
-  return normalizedName
+export function removeSuffixes(
+  text: string,
+  jurisdictions: LegalFormJurisdiction[] = LEGAL_FORM_JURISDICTIONS,
+  descriptors: string[] = DEFAULT_INDUSTRY_DESCRIPTORS
+): string {
+  const words = removeLegalForms(text.split(' '), jurisdictions);
+  return splitDescriptors(words.join(' '), descriptors).name;
+}
+
+/**
+ * Splits the trailing industry descriptors off a normalized name
+ * ("extremes software" -> "extremes" + ["software"]). Unlike legal forms
+ * they may take the whole name ("games studio" -> ""); the degenerate-name
+ * guard deals with that.
+ */
+function splitDescriptors(normalized: string, descriptors: string[]): { name: string; removed: string[] } {
+  const words = extractTokens(normalized, false);
+  const known = new Set(descriptors.map(d => d.toLowerCase()));
+  let end = words.length;
+  while (end > 0 && known.has(words[end - 1])) end--;
+  return { name: words.slice(0, end).join(' '), removed: words.slice(end) };
+}
+
+/**
+ * Trailing industry descriptors of a raw name, after its legal forms
+ * ("Ubisoft Studios Ltd" -> {"studios"})
+ */
+export function extractIndustryDescriptors(rawName: string, config: DeduplicationConfig): Set<string> {
+  const unstripped = normalizeCompanyName(rawName, { ...config, industryDescriptorMode: 'keep' });
+  return new Set(splitDescriptors(unstripped, config.industryDescriptors).removed);
+}
+
+/**
+ * Checks whether a raw name ends with a legal form ("Acme Ltd.", "Siemens AG", "Sony K.K.")
+ */
+export function hasLegalSuffix(name: string, jurisdictions: LegalFormJurisdiction[] = LEGAL_FORM_JURISDICTIONS): boolean {
+  const words = removePunctuation(removeAccents(caseFold(name))).split(' ');
+  const raw = rawWords(name);
+  return legalFormTokens(jurisdictions).some(form => endsWithLegalForm(words, form, raw));
+}
+
+const legalFormCache = new Map<string, string[][]>();
+
+/**
+ * Legal forms of the given jurisdictions as normalized token runs, longest
+ * first ("S.à r.l." -> ["s", "a", "r", "l"]). Forms are normalized with and
+ * without accents so they match either way the name was normalized.
+ */
+export function legalFormTokens(jurisdictions: LegalFormJurisdiction[]): string[][] {
+  const key = [...jurisdictions].sort().join(',');
+  let forms = legalFormCache.get(key);
+  if (!forms) {
+    const unique = new Set<string>();
+    for (const jurisdiction of jurisdictions) {
+      for (const form of LEGAL_FORMS[jurisdiction] ?? []) {
+        const lower = form.toLowerCase();
+        for (const variant of [lower, removeAccents(lower)]) {
+          const normalized = removePunctuation(variant);
+          if (normalized) unique.add(normalized);
+        }
+      }
+    }
+    forms = [...unique].map(form => form.split(' ')).sort((a, b) => b.length - a.length);
+    legalFormCache.set(key, forms);
+  }
+  return forms;
+}
+
+/**
+ * Strips trailing legal forms ("acme pty ltd" -> "acme", "bosch gmbh co kg"
+ * -> "bosch"), always keeping at least one word
+ */
+function removeLegalForms(words: string[], jurisdictions: LegalFormJurisdiction[], raw: string[] = []): string[] {
+  const forms = legalFormTokens(jurisdictions);
+  let remaining = words;
+  let form: string[] | undefined;
+  let rawRemaining = raw;
+  while ((form = forms.find(f => endsWithLegalForm(remaining, f, rawRemaining)))) {
+    remaining = remaining.slice(0, remaining.length - form.length);
+    rawRemaining = rawRemaining.slice(0, Math.max(0, rawRemaining.length - form.length));
+  }
+  return remaining;
+}
+
+/**
+ * True if `words` end with `form`. Word-like forms also need their raw
+ * spelling – `raw` lines up with `words` from the end – to be upper-case:
+ * "equinor as" from "Equinor AS" ends with a legal form, from "Tell Me As" not.
+ */
+function endsWithLegalForm(words: string[], form: string[], raw: string[]): boolean {
+  if (!endsWithForm(words, form)) return false;
+  if (form.length > 1 || !WORD_LIKE_LEGAL_FORMS.includes(form[0])) return true;
+  const spelling = raw[raw.length - 1] as string | undefined;
+  return spelling !== undefined && spelling === spelling.toUpperCase() && spelling !== spelling.toLowerCase();
+}
+
+/**
+ * Words of a raw name with their case kept, split the way normalization
+ * splits them (dropping digits too when `removeNumbers` is on)
+ */
+function rawWords(name: string, removeNumbers = false): string[] {
+  const text = normalizeUnicode(name);
+  return removePunctuation(removeNumbers ? removeDigits(text) : text).split(' ');
+}
+
+/**
+ * Removes digits of every script
+ */
+function removeDigits(text: string): string {
+  return text.replace(/\p{Nd}+/gu, '');
+}
+
+function endsWithForm(words: string[], form: string[]): boolean {
+  if (words.length <= form.length) return false;
+  const offset = words.length - form.length;
+  return form.every((token, i) => words[offset + i] === token);
+}
+
+/**
+ * Extracts tokens (words) from a normalized company name. Sorted by default
+ * for consistent comparison; pass `sorted = false` to keep name order.
+ */
+export function extractTokens(normalizedName: string, sorted = true): string[] {
+  const tokens = normalizedName
     .split(' ')
-    .filter(token => token.length > 0)
-    .sort(); // Sort for consistent comparison
+    .filter(token => token.length > 0);
+  return sorted ? tokens.sort() : tokens;
 }
 
 /**
- * Checks if two company names are probably the same company but different offices
- * DID NOT IMPLEMENT THIS YET  - WORRIED ABOUT FALSE POSITIVES, MIGHT RETHINK LATER
+ * Returns the acronym if the raw name is a short all-caps word, optionally
+ * dotted or followed by suffixes ("IBM", "E.A.", "EA Games") – otherwise null
  */
-export function isLikelyGeographicVariant(name1: string, name2: string): boolean {
-  const tokens1 = new Set(name1.toLowerCase().split(' '));
-  const tokens2 = new Set(name2.toLowerCase().split(' '));
-  
+export function extractAcronym(rawName: string, normalizedName: string): string | null {
+  if (!/^[a-z]{2,6}$/.test(normalizedName)) return null;
+  const words = rawName.replace(/\./g, '').split(/\s+/);
+  return words.some(w => w.length >= 2 && w === w.toUpperCase() && w.toLowerCase() === normalizedName)
+    ? normalizedName
+    : null;
+}
+
+// config overrides that leave legal forms and descriptors in the name
+const KEEP_SUFFIXES: Partial<DeduplicationConfig> = { removeSuffixes: false, industryDescriptorMode: 'keep' };
+
+/**
+ * Builds initialisms from the words of a name, in order. The full variant
+ * uses every word; depending on the config further variants leave out
+ * stopwords and then suffix words as well.
+ */
+export function buildInitialisms(name: string, config: DeduplicationConfig): Initialism[] {
+  const words = extractTokens(normalizeCompanyName(name, { ...config, ...KEEP_SUFFIXES }), false);
+  if (words.length < 2) return [];
+
+  const initials = (list: string[]) => list.map(w => w[0]).join('');
+  const variants: Initialism[] = [{ value: initials(words), skipped: 'none' }];
+
+  let remaining = words;
+  if (config.acronymSkipStopwords) {
+    remaining = remaining.filter(w => !ACRONYM_STOPWORDS.includes(w));
+    variants.push({ value: initials(remaining), skipped: 'stopwords' });
+  }
+  if (config.acronymSkipSuffixes) {
+    const suffixWords = new Set([
+      ...config.industryDescriptors,
+      ...legalFormTokens(config.legalFormJurisdictions).filter(form => form.length === 1).map(form => form[0])
+    ]);
+    remaining = remaining.filter(w => !suffixWords.has(w));
+    variants.push({ value: initials(remaining), skipped: 'suffixes' });
+  }
+
+  // keep the first (most complete) variant for each distinct value
+  return variants.filter((v, i) => v.value.length >= 2 && variants.findIndex(o => o.value === v.value) === i);
+}
+
+/**
+ * Checks if two normalized names are probably offices of the same company:
+ * they differ, every differing token is a geographic term and they share at
+ * least one other token ("ubisoft montreal" / "ubisoft paris", "ubisoft" /
+ * "ubisoft paris"; not "paris" / "london").
+ */
+export function isLikelyGeographicVariant(
+  name1: string,
+  name2: string,
+  terms: string[] = DEFAULT_GEOGRAPHIC_TERMS
+): boolean {
+  const tokens1 = new Set(extractTokens(name1.toLowerCase()));
+  const tokens2 = new Set(extractTokens(name2.toLowerCase()));
+  const geographic = new Set(terms.map(t => t.toLowerCase()));
+
   // Find tokens that are only in one name
-  const diff1 = Array.from(tokens1).filter(token => !tokens2.has(token));
-  const diff2 = Array.from(tokens2).filter(token => !tokens1.has(token));
-  
-  // If the only differences are geographic terms, likely same company
-  const isOnlyGeographic = (diffs: string[]) => {
-    return diffs.length > 0 && diffs.every(diff => 
-      GEOGRAPHIC_TERMS.includes(diff.toLowerCase())
-    );
-  };
-  
-  return isOnlyGeographic(diff1) || isOnlyGeographic(diff2);
+  const diffs = [
+    ...Array.from(tokens1).filter(token => !tokens2.has(token)),
+    ...Array.from(tokens2).filter(token => !tokens1.has(token))
+  ];
+  const sharesName = Array.from(tokens1).some(token => tokens2.has(token) && !geographic.has(token));
+
+  return sharesName && diffs.length > 0 && diffs.every(diff => geographic.has(diff));
+}
+
+/**
+ * True if a normalized name contains one of the geographic terms
+ * ("ubisoft paris", not "ubisoft")
+ */
+export function hasGeographicTerm(normalizedName: string, terms: string[] = DEFAULT_GEOGRAPHIC_TERMS): boolean {
+  const geographic = new Set(terms.map(t => t.toLowerCase()));
+  return extractTokens(normalizedName).some(token => geographic.has(token));
+}
+
+/**
+ * True if two normalized names are two offices of one company ("ubisoft
+ * montreal" / "ubisoft paris"), not the company and one of its offices
+ */
+export function isSiblingOffice(name1: string, name2: string, terms: string[] = DEFAULT_GEOGRAPHIC_TERMS): boolean {
+  return hasGeographicTerm(name1, terms) && hasGeographicTerm(name2, terms) && isLikelyGeographicVariant(name1, name2, terms);
+}
+
+/**
+ * A normalized name without its geographic terms ("ubisoft montreal" -> "ubisoft")
+ */
+export function stripGeographicTerms(normalizedName: string, terms: string[] = DEFAULT_GEOGRAPHIC_TERMS): string {
+  const geographic = new Set(terms.map(t => t.toLowerCase()));
+  return extractTokens(normalizedName, false).filter(token => !geographic.has(token)).join(' ');
+}
+
+// roman numerals II-XXXIX as whole words of two or more letters; a lone "I",
+// "V" or "X" is too often a word, a brand or a letter of a dotted form ("v.o.s.")
+const ROMAN_NUMERAL = /^(x{0,3})(ix|iv|v?i{0,3})$/;
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10 };
+
+/**
+ * Distinguishing numbers of a raw name ("FIFA 22", "Studio II", "1001
+ * Studio", "Mortal Kombat 2011"): every run of digits of any script plus
+ * roman numerals, all as integers so "Studio 2", "Studio ٢" and "Studio II"
+ * agree.
+ */
+export function extractNumericTokens(rawName: string): Set<string> {
+  const numbers = new Set<string>();
+  const name = normalizeUnicode(rawName);
+  for (const digits of name.match(/\p{Nd}+/gu) ?? []) numbers.add(String(parseInt(toAsciiDigits(digits), 10)));
+  for (const word of name.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length >= 2 && ROMAN_NUMERAL.test(word)) numbers.add(String(romanToInteger(word)));
+  }
+  return numbers;
+}
+
+/**
+ * Spells digits of any script with 0-9 ("٢٢" -> "22"). Every script's
+ * digits are ten consecutive code points from zero up; the compatibility
+ * forms that sit next to each other (mathematical, full-width) are folded
+ * to ASCII by NFKC beforehand.
+ */
+function toAsciiDigits(digits: string): string {
+  return Array.from(digits, ch => {
+    const code = ch.codePointAt(0) as number;
+    let zero = code;
+    while (code - zero < 9 && /\p{Nd}/u.test(String.fromCodePoint(zero - 1))) zero--;
+    return String(code - zero);
+  }).join('');
+}
+
+function romanToInteger(numeral: string): number {
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total;
 }
 
 /**
@@ -120,15 +430,100 @@ export function createFuzzySignature(normalizedName: string): string {
   return signature;
 }
 
+/**
+ * Character n-gram counts of a normalized name. Spaces are dropped first so
+ * joined and split spellings ("play station" / "playstation") agree; with
+ * padding the first and last characters also start/end full n-grams.
+ */
+export function extractNgrams(normalizedName: string, n: number, padding: boolean): Map<string, number> {
+  const pad = padding ? '#'.repeat(n - 1) : '';
+  const text = pad + normalizedName.replace(/\s+/g, '') + pad;
+  const grams = new Map<string, number>();
+  for (let i = 0; i + n <= text.length; i++) {
+    const gram = text.substring(i, i + n);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
 /**
  * Calculates token overlap between two company names
  */
 export function calculateTokenOverlap(name1: string, name2: string): number {
-  const tokens1 = new Set(extractTokens(name1));
-  const tokens2 = new Set(extractTokens(name2));
+  return calculateTokenSetOverlap(new Set(extractTokens(name1)), new Set(extractTokens(name2)));
+}
+
+/**
+ * Jaccard overlap of two precomputed token sets
+ */
+export function calculateTokenSetOverlap(tokens1: Set<string>, tokens2: Set<string>): number {
+  let intersection = 0;
+  for (const token of tokens1) {
+    if (tokens2.has(token)) intersection++;
+  }
+  const union = tokens1.size + tokens2.size - intersection;
   
-  const intersection = new Set([...tokens1].filter(token => tokens2.has(token)));
-  const union = new Set([...tokens1, ...tokens2]);
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * True if a normalized name is below the configured information minimums
+ */
+export function isDegenerateName(normalized: string, config: DeduplicationConfig): boolean {
+  return normalized.length < config.minNameLength || extractTokens(normalized).length < config.minNameTokens;
+}
+
+/**
+ * Applies degenerateNamePolicy: "Games Studio" normalizes to "" and "1" to
+ * "1". With 'fallback' such names keep their suffix words ("games studio");
+ * names that are still too short, or any with 'unmatchable', are flagged
+ * unmatchable and left out of matching.
+ */
+function normalizeWithGuard(
+  raw: string,
+  config: DeduplicationConfig
+): { normalized: string; degenerate?: DegenerateHandling } {
+  const normalized = normalizeCompanyName(raw, config);
+  if (config.degenerateNamePolicy === 'off' || !isDegenerateName(normalized, config)) return { normalized };
+
+  if (config.degenerateNamePolicy === 'fallback') {
+    const unstripped = normalizeCompanyName(raw, { ...config, ...KEEP_SUFFIXES });
+    if (!isDegenerateName(unstripped, config)) return { normalized: unstripped, degenerate: 'fallback' };
+  }
+  return { normalized, degenerate: 'unmatchable' };
+}
+
+/**
+ * Normalizes a name once and derives everything the matching layers use
+ */
+export function prepareCompany(name: string, config: DeduplicationConfig, source?: SourceInfo): PreparedCompany {
+  const raw = name.trim();
+  const { normalized, degenerate } = normalizeWithGuard(raw, config);
+  const tokens = new Set(extractTokens(normalized));
   
-  return union.size > 0 ? intersection.size / union.size : 0;
+  return {
+    raw,
+    normalized,
+    tokens,
+    signature: createFuzzySignature(normalized),
+    length: normalized.length,
+    tokenCount: tokens.size,
+    phoneticCodes: phoneticCodes(tokens, config.phoneticAlgorithm),
+    acronym: config.acronymMatching ? extractAcronym(raw, normalized) : null,
+    initialisms: config.acronymMatching ? buildInitialisms(raw, config) : [],
+    ngrams: extractNgrams(normalized, config.ngramSize, config.ngramPadding),
+    numericTokens: extractNumericTokens(raw),
+    descriptors: config.industryDescriptorMode === 'penalize' ? extractIndustryDescriptors(raw, config) : new Set(),
+    ...(degenerate && { degenerate }),
+    ...(source && { source })
+  };
+}
+
+/**
+ * Prepares a whole list (empty/whitespace entries are dropped)
+ */
+export function prepareCompanies(names: string[], config: DeduplicationConfig): PreparedCompany[] {
+  return names
+    .filter(name => name.trim().length > 0)
+    .map(name => prepareCompany(name, config));
 } 
\ No newline at end of file
@@ -0,0 +1,149 @@
+/**
+ * Phonetic encodings for company-name tokens – catches names typed the way
+ * they sound ("Kwality" vs "Quality", "Ubysoft" vs "Ubisoft").
+ */
+
+import { PhoneticAlgorithm } from '../types';
+
+const VOWELS = 'AEIOU';
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6'
+};
+
+/**
+ * American Soundex: first letter + three digits ("Ubisoft" -> "U121").
+ * (https://en.wikipedia.org/wiki/Soundex)
+ */
+export function soundex(word: string): string {
+  const letters = word.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0];
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const ch = letters[i];
+    const digit = SOUNDEX_CODES[ch] ?? '';
+    if (digit && digit !== previous) code += digit;
+    // H and W do not separate letters with the same code, vowels do
+    if (ch !== 'H' && ch !== 'W') previous = digit;
+  }
+  return code.padEnd(4, '0');
+}
+
+/**
+ * Simplified Metaphone: maps letters to their usual English sound, drops
+ * non-initial vowels and silent letters ("Kwality" and "Quality" -> "KWLT").
+ * Covers the common rules of Lawrence Philips' original algorithm.
+ */
+export function metaphone(word: string): string {
+  let w = word.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!w) return '';
+
+  // Initial letter exceptions
+  if (/^(AE|GN|KN|PN|WR)/.test(w)) w = w.substring(1);
+  if (w[0] === 'X') w = 'S' + w.substring(1);
+  if (w.startsWith('WH')) w = 'W' + w.substring(2);
+  w = w.replace(/QU/g, 'KW');
+
+  const at = (i: number) => w[i] ?? '';
+  const oneOf = (ch: string, set: string) => ch !== '' && set.includes(ch);
+  const isVowel = (ch: string) => oneOf(ch, VOWELS);
+
+  let code = '';
+  for (let i = 0; i < w.length; i++) {
+    const ch = w[i];
+    const next = at(i + 1);
+    // skip doubled letters except C
+    if (ch === at(i - 1) && ch !== 'C') continue;
+
+    switch (ch) {
+      case 'A': case 'E': case 'I': case 'O': case 'U':
+        if (i === 0) code += 'A';
+        break;
+      case 'B':
+        if (!(i === w.length - 1 && at(i - 1) === 'M')) code += 'B';
+        break;
+      case 'C':
+        if (next === 'I' && at(i + 2) === 'A') code += 'X';
+        else if (next === 'H') { code += 'X'; i++; }
+        else if (oneOf(next, 'IEY')) {
+          if (at(i - 1) !== 'S') code += 'S';
+        } else if (next !== 'K') code += 'K';
+        break;
+      case 'D':
+        if (next === 'G' && oneOf(at(i + 2), 'EIY')) { code += 'J'; i++; }
+        else code += 'T';
+        break;
+      case 'G':
+        if (next === 'H' && !isVowel(at(i + 2))) break;      // "GH" silent: "night"
+        if (next === 'N' && i + 2 >= w.length) break;        // "GN" at end: "sign"
+        code += oneOf(next, 'EIY') ? 'J' : 'K';
+        break;
+      case 'H':
+        if (isVowel(next) && !oneOf(at(i - 1), 'CSPTG')) code += 'H';
+        break;
+      case 'K':
+        if (at(i - 1) !== 'C') code += 'K';
+        break;
+      case 'P':
+        if (next === 'H') { code += 'F'; i++; }
+        else code += 'P';
+        break;
+      case 'Q':
+        code += 'K';
+        break;
+      case 'S':
+        if (next === 'H') { code += 'X'; i++; }
+        else if (next === 'I' && (at(i + 2) === 'O' || at(i + 2) === 'A')) code += 'X';
+        else code += 'S';
+        break;
+      case 'T':
+        if (next === 'I' && (at(i + 2) === 'O' || at(i + 2) === 'A')) code += 'X';
+        else if (next === 'H') { code += '0'; i++; }
+        else if (!(next === 'C' && at(i + 2) === 'H')) code += 'T';
+        break;
+      case 'V':
+        code += 'F';
+        break;
+      case 'W':
+      case 'Y':
+        if (isVowel(next)) code += ch;
+        break;
+      case 'X':
+        code += 'KS';
+        break;
+      case 'Z':
+        code += 'S';
+        break;
+      default: // F J L M N R
+        code += ch;
+    }
+  }
+  return code;
+}
+
+/**
+ * Phonetic code of one normalized token. Tokens without letters (numbers)
+ * are kept as they are so "studio 1" and "studio 2" stay apart.
+ */
+export function encodePhonetic(token: string, algorithm: PhoneticAlgorithm): string {
+  if (!/[a-z]/i.test(token)) return token;
+  return algorithm === 'soundex' ? soundex(token) : metaphone(token);
+}
+
+/**
+ * Distinct phonetic codes for a set of tokens
+ */
+export function phoneticCodes(tokens: Iterable<string>, algorithm: PhoneticAlgorithm): Set<string> {
+  const codes = new Set<string>();
+  for (const token of tokens) {
+    const code = encodePhonetic(token, algorithm);
+    if (code) codes.add(code);
+  }
+  return codes;
+}
@@ -0,0 +1,126 @@
+/**
+ * Transliteration of non-Latin scripts into Latin letters, so "Яндекс" and
+ * "Yandex" or "ソニー" and "Sony" reach the matching layers in the same
+ * script. Table-driven and approximate: Cyrillic follows common passport
+ * practice, Greek ELOT 743, kana Hepburn. Kanji and other scripts are left
+ * as they are.
+ *
+ * Tables work on lower-case text, the normalizer runs this after lowercasing.
+ */
+
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i',
+  й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't',
+  у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '',
+  э: 'e', ю: 'yu', я: 'ya',
+  // Ukrainian, Belarusian, Serbian, Macedonian
+  є: 'ye', і: 'i', ї: 'yi', ґ: 'g', ў: 'u', ђ: 'dj', ј: 'j', љ: 'lj', њ: 'nj', ћ: 'c', џ: 'dz', ѓ: 'gj', ќ: 'kj', ѕ: 'dz',
+  // "Яндекс" -> "yandex", "Максим" -> "maxim"
+  кс: 'x'
+};
+
+const GREEK: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k',
+  λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't',
+  υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+  ά: 'a', έ: 'e', ή: 'i', ί: 'i', ό: 'o', ύ: 'y', ώ: 'o', ϊ: 'i', ϋ: 'y', ΐ: 'i', ΰ: 'y',
+  ου: 'ou', ού: 'ou', αυ: 'av', αύ: 'av', ευ: 'ev', εύ: 'ev', ηυ: 'iv', γγ: 'ng', γξ: 'nx', γχ: 'nch'
+};
+
+// hiragana; katakana sits 0x60 code points above each of these
+const HIRAGANA: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', ゐ: 'i', ゑ: 'e', を: 'o', ん: 'n',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o', ゃ: 'ya', ゅ: 'yu', ょ: 'yo', ゎ: 'wa'
+};
+
+const SMALL_Y = ['ゃ', 'ゅ', 'ょ'];
+const SMALL_VOWELS = ['ぁ', 'ぃ', 'ぅ', 'ぇ', 'ぉ'];
+const SOKUON = ['っ', 'ッ'];                    // doubles the next consonant
+const CHOONPU = 'ー';                           // long vowel mark, dropped
+const KATAKANA_OFFSET = 0x60;
+
+/**
+ * Kana table including the two-kana combinations: "きゃ" -> "kya", "しょ" ->
+ * "sho", and katakana loanword spellings "ファ" -> "fa", "ティ" -> "ti"
+ */
+function buildKanaTable(): Map<string, string> {
+  const table = new Map<string, string>();
+  for (const [kana, latin] of Object.entries(HIRAGANA)) {
+    table.set(kana, latin);
+    // vowels, "n" and the small kana themselves take no combinations
+    if (latin.length < 2 || SMALL_Y.includes(kana) || SMALL_VOWELS.includes(kana)) continue;
+    const stem = latin.slice(0, -1);
+    if (latin.endsWith('i')) {
+      // "ki" + "ya" -> "kya", but "shi" + "ya" -> "sha"
+      for (const small of SMALL_Y) table.set(kana + small, /^(sh|ch|j)$/.test(stem) ? stem + HIRAGANA[small][1] : stem + HIRAGANA[small]);
+    }
+    for (const small of SMALL_VOWELS) table.set(kana + small, stem + HIRAGANA[small]);
+  }
+  table.set('うぃ', 'wi');
+  table.set('うぇ', 'we');
+  table.set('うぉ', 'wo');
+
+  for (const [kana, latin] of Array.from(table)) {
+    table.set(Array.from(kana, ch => String.fromCharCode(ch.charCodeAt(0) + KATAKANA_OFFSET)).join(''), latin);
+  }
+  return table;
+}
+
+const TABLE = new Map<string, string>([...Object.entries(CYRILLIC), ...Object.entries(GREEK), ...buildKanaTable()]);
+
+/**
+ * Transliterates Cyrillic, Greek and kana in lower-case text into Latin
+ * letters; two-character combinations take precedence over single ones
+ * ("яндекс" -> "yandex", "ソニー" -> "soni", "κωτσόβολος" -> "kotsovolos")
+ */
+export function transliterate(text: string): string {
+  let result = '';
+  let geminate = false;
+  for (let i = 0; i < text.length; ) {
+    const ch = text[i];
+    if (SOKUON.includes(ch)) {
+      geminate = true;
+      i++;
+      continue;
+    }
+    if (ch === CHOONPU) {
+      i++;
+      continue;
+    }
+
+    let key = text.substring(i, i + 2);
+    let latin = TABLE.get(key);
+    if (latin === undefined) {
+      key = ch;
+      latin = TABLE.get(ch);
+    }
+    if (latin === undefined) {
+      result += ch;
+      geminate = false;
+      i++;
+      continue;
+    }
+
+    // "ニッポン" -> "nippon", "マッチ" -> "matchi"
+    if (geminate && /^[bcdfghjkmprstvz]/.test(latin)) result += latin.startsWith('ch') ? 't' : latin[0];
+    geminate = false;
+    result += latin;
+    i += key.length;
+  }
+  return result;
+}